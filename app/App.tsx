@@ -1,277 +1,686 @@
-import React, { useEffect, useState } from "react";
-import * as FileSystem from "expo-file-system";
-import { loadModel } from "../llama/llama.config";
+import React, { useEffect, useState, useSyncExternalStore } from "react";
 import Chat from "@/components/Chat";
+import BenchmarkScreen from "@/components/BenchmarkScreen";
+import ActionSheet from "@/components/ActionSheet";
+import SearchScreen from "@/components/SearchScreen";
+import PersonaScreen from "@/components/PersonaScreen";
 import { SafeAreaProvider, SafeAreaView } from "react-native-safe-area-context";
-import { LlamaContext } from "llama.rn";
-import { Text, View, ActivityIndicator, TouchableOpacity, Modal, ScrollView, Alert, Dimensions } from "react-native";
+import { Text, View, ActivityIndicator, TouchableOpacity, Modal, ScrollView, Alert, Dimensions, TextInput, Switch } from "react-native";
 import { Ionicons } from '@expo/vector-icons';
+import {
+    ConversationSummary,
+    deleteConversation,
+    generateConversationId,
+    listConversations,
+    loadConversation,
+    renameConversation
+} from "@/storage/conversations";
+import {
+    exportConversationJson,
+    exportConversationMarkdown,
+    importConversationJson
+} from "@/storage/conversationExport";
+import { deleteConversationImages } from "@/storage/conversationImages";
+import { indexConversation, removeConversationFromIndex } from "@/storage/searchIndex";
+import * as DocumentPicker from "expo-document-picker";
+import {
+    getBundledCatalog,
+    loadModelCatalog,
+    ModelConfig
+} from "@/models/catalog";
+import { importModelFile, loadImportedModels, PickedFile, removeImportedModel } from "@/models/importedModels";
+import {
+    deleteModelFiles,
+    formatBytes,
+    formatLastUsed,
+    getDownloadBytes,
+    getInstalledModelInfo,
+    InstalledModelInfo
+} from "@/models/installedModels";
+import { cancelDownload, pauseDownload, resumeDownload } from "@/models/downloadManager";
+import { loadAllModelSettings, ModelSettings, removeModelSettings, saveModelSettings } from "@/models/modelSettings";
+import {
+    activateModel,
+    getLifecycleState,
+    releaseActiveModel,
+    reloadModel,
+    subscribeToLifecycle
+} from "@/models/modelLifecycle";
+import {
+    diffLoadOptions,
+    getLoadFields,
+    KV_CACHE_TYPES,
+    LoadOptions,
+    LoadOptionsDraft,
+    parseLoadOptionsDraft,
+    resolveLoadOptions,
+    toLoadOptionsDraft
+} from "@/llama/loadOptions";
+import { getDefaultGenerationSettings, mergeGenerationSettings } from "@/llama/generationSettings";
+import { getContextBudget } from "@/llama/contextWindow";
+import {
+    loadPerformanceHistory,
+    PerformanceSample,
+    removePerformanceHistory,
+    summarizePerformance
+} from "@/models/performanceHistory";
+import { DeviceProfile, FIT_LABELS, FitRating, ModelFit, probeDevice, rateModelFit } from "@/models/deviceProfile";
 
 const { width } = Dimensions.get('window');
 
-// Model configurations with size limits and validation
-interface ModelConfig {
-    id: string;
-    name: string;
-    description: string;
-    url: string;
-    mmprojUrl?: string;
-    sizeGB: number;
-    maxParams: number;
-    recommended: boolean;
-}
-
-const AVAILABLE_MODELS: ModelConfig[] = [
-    {
-        id: "qwen3-1.7b",
-        name: "Qwen3 1.7B",
-        description: "Fast, efficient model good for general conversation",
-        url: "https://huggingface.co/unsloth/Qwen3-1.7B-GGUF/resolve/main/Qwen3-1.7B-Q5_K_M.gguf",
-        sizeGB: 1.1,
-        maxParams: 2048,
-        recommended: true
-    },
-    {
-        id: "qwen2.5-vl-3b",
-        name: "Qwen2.5-VL 3B",
-        description: "Multimodal model that can see and understand images",
-        url: "https://huggingface.co/unsloth/Qwen2.5-VL-3B-Instruct-GGUF/resolve/main/Qwen2.5-VL-3B-Instruct-Q4_K_M.gguf",
-        mmprojUrl: "https://huggingface.co/unsloth/Qwen2.5-VL-3B-Instruct-GGUF/resolve/main/mmproj-F16.gguf",
-        sizeGB: 1.93,
-        maxParams: 4096,
-        recommended: false
-    },
-    {
-        id: "phi-3-mini",
-        name: "Phi-3 Mini",
-        description: "Microsoft's efficient model with good reasoning",
-        url: "https://huggingface.co/unsloth/Phi-3-mini-GGUF/resolve/main/Phi-3-mini-Q5_K_M.gguf",
-        sizeGB: 0.8,
-        maxParams: 2048,
-        recommended: true
-    },
-    {
-        id: "llama3-1b",
-        name: "Llama3 1B",
-        description: "Meta's lightweight Llama model",
-        url: "https://huggingface.co/unsloth/Llama-3-1B-GGUF/resolve/main/Llama-3-1B-Q5_K_M.gguf",
-        sizeGB: 0.6,
-        maxParams: 2048,
-        recommended: false
-    }
-];
+const BUNDLED_CATALOG = getBundledCatalog();
 
-// Parameter restrictions
+// Parameter restrictions; whether a model fits in memory is decided per device
 const PARAMETER_LIMITS = {
-    maxModelSizeGB: 2.0, // Maximum model size in GB
-    maxContextLength: 4096, // Maximum context length
-    maxResponseLength: 2048, // Maximum response length
-    minRAMGB: 4.0 // Minimum recommended RAM
+    maxContextLength: 4096, // Maximum context length of imported models
+};
+
+const LOAD_SWITCHES: { key: 'use_mlock' | 'use_mmap' | 'flash_attn'; label: string }[] = [
+    { key: 'use_mlock', label: 'Lock in memory (mlock)' },
+    { key: 'use_mmap', label: 'Memory-map weights (mmap)' },
+    { key: 'flash_attn', label: 'Flash attention' }
+];
+
+type Tab = 'chat' | 'models' | 'benchmark' | 'search' | 'personas';
+
+// Screens that stay usable while a model is loading or failed to load
+const MODEL_FREE_TABS: Tab[] = ['benchmark', 'search', 'personas'];
+
+const FIT_COLORS: Record<FitRating, string> = {
+    runs_well: '#059669',
+    may_be_slow: '#d97706',
+    wont_fit: '#dc2626'
 };
 
 export default () => {
-    const [context, setContext] = useState<LlamaContext | null | undefined>(null);
-    const [loading, setLoading] = useState(true);
-    const [error, setError] = useState<string | null>(null);
-    const [status, setStatus] = useState("Initializing...");
+    const lifecycle = useSyncExternalStore(subscribeToLifecycle, getLifecycleState);
     const [showModelSelector, setShowModelSelector] = useState(false);
-    const [selectedModel, setSelectedModel] = useState<ModelConfig>(AVAILABLE_MODELS[0]);
-    const [downloadProgress, setDownloadProgress] = useState(0);
-    const [currentTab, setCurrentTab] = useState<'chat' | 'models'>('chat');
+    const [models, setModels] = useState<ModelConfig[]>(BUNDLED_CATALOG.models);
+    const [catalogErrors, setCatalogErrors] = useState<string[]>(BUNDLED_CATALOG.errors);
+    const [importStatus, setImportStatus] = useState<string | null>(null);
+    const [installedInfo, setInstalledInfo] = useState<Record<string, InstalledModelInfo>>({});
+    const [deviceProfile, setDeviceProfile] = useState<DeviceProfile | null>(null);
+    const [modelSettings, setModelSettings] = useState<Record<string, ModelSettings>>({});
+    const [performance, setPerformance] = useState<Record<string, PerformanceSample[]>>({});
+    // Model whose advanced load options are open on the Models tab
+    const [tuningModelId, setTuningModelId] = useState<string | null>(null);
+    const [loadDraft, setLoadDraft] = useState<LoadOptionsDraft | null>(null);
+    const [selectedModel, setSelectedModel] = useState<ModelConfig>(BUNDLED_CATALOG.models[0]);
+    const [currentTab, setCurrentTab] = useState<Tab>('chat');
     const [showSidebar, setShowSidebar] = useState(false);
+    const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+    const [activeConversationId, setActiveConversationId] = useState(generateConversationId);
+    // Message to scroll to once the chat opens, set by choosing a search result
+    const [focusMessageId, setFocusMessageId] = useState<string | null>(null);
+    const [renamingConversation, setRenamingConversation] = useState<ConversationSummary | null>(null);
+    const [renameText, setRenameText] = useState("");
+    const [exportingConversation, setExportingConversation] = useState<ConversationSummary | null>(null);
 
-    // Check if model file exists for current selection
-    const getModelPath = (model: ModelConfig) => {
-        return FileSystem.documentDirectory + `model_${model.id}.gguf`;
+    const context = lifecycle.phase === "ready" ? lifecycle.context : null;
+    const loadedOptions = lifecycle.phase === "ready" ? lifecycle.options : null;
+    const error = lifecycle.phase === "error" ? lifecycle.error : null;
+    const download = lifecycle.phase === "downloading" ? lifecycle.download ?? null : null;
+    const loading = lifecycle.phase === "downloading" || lifecycle.phase === "loading" || lifecycle.phase === "releasing";
+    const status = loading ? lifecycle.status : "";
+
+    const getLoadOptions = (model: ModelConfig): LoadOptions => resolveLoadOptions(model, modelSettings[model.id]?.loadOptions);
+
+    const freeDiskBytes = deviceProfile?.freeStorageBytes ?? null;
+
+    // Unrated until the device has been probed; nothing is blocked in the meantime
+    const getModelFit = (model: ModelConfig): ModelFit | null =>
+        deviceProfile && rateModelFit(model, deviceProfile, getLoadOptions(model), !!installedInfo[model.id]?.installed);
+
+    const validateModelSelection = (model: ModelConfig): { valid: boolean; fit: ModelFit | null } => {
+        const fit = getModelFit(model);
+        return { valid: fit?.rating !== 'wont_fit', fit };
     };
 
-    const getMmprojPath = (model: ModelConfig) => {
-        return FileSystem.documentDirectory + `mmproj_${model.id}.gguf`;
+    const switchModel = async (newModel: ModelConfig) => {
+        const validation = validateModelSelection(newModel);
+        if (!validation.valid) {
+            Alert.alert("Model Won't Fit", validation.fit?.reasons.join('\n'));
+            return;
+        }
+
+        setSelectedModel(newModel);
+        setShowModelSelector(false);
+
+        // Queued behind any in-flight switch; the previous context is released before loading
+        await activateModel(newModel);
+    };
+
+    const refreshInstalledInfo = async () => {
+        try {
+            const [info, profile, settings, history] = await Promise.all([
+                getInstalledModelInfo(models),
+                probeDevice(),
+                loadAllModelSettings(),
+                loadPerformanceHistory()
+            ]);
+            setInstalledInfo(info);
+            setDeviceProfile(profile);
+            setModelSettings(settings);
+            setPerformance(history);
+        } catch (e) {
+            console.error("Error reading installed models:", e);
+        }
     };
 
-    const validateModelSelection = (model: ModelConfig): { valid: boolean; message?: string } => {
-        if (model.sizeGB > PARAMETER_LIMITS.maxModelSizeGB) {
-            return { 
-                valid: false, 
-                message: `Model too large (${model.sizeGB}GB > ${PARAMETER_LIMITS.maxModelSizeGB}GB limit)` 
-            };
+    // Confirm before committing to a multi-gigabyte download
+    const requestSwitchModel = (model: ModelConfig) => {
+        const info = installedInfo[model.id];
+        if (model.id === selectedModel.id || info?.installed || model.imported) {
+            switchModel(model);
+            return;
         }
-        
-        if (model.maxParams > PARAMETER_LIMITS.maxContextLength) {
-            return { 
-                valid: false, 
-                message: `Model exceeds context length limit (${model.maxParams} > ${PARAMETER_LIMITS.maxContextLength})` 
-            };
+
+        const downloadBytes = getDownloadBytes(model) - (info?.diskBytes ?? 0);
+        const freeText = freeDiskBytes !== null ? `\n\n${formatBytes(freeDiskBytes)} free on this device.` : '';
+        Alert.alert(
+            'Download Model',
+            `${model.name} needs a ${formatBytes(downloadBytes)} download.${freeText}`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Download', onPress: () => switchModel(model) }
+            ]
+        );
+    };
+
+    const toggleLoadOptions = (model: ModelConfig) => {
+        if (tuningModelId === model.id) {
+            setTuningModelId(null);
+            return;
         }
+        setLoadDraft(toLoadOptionsDraft(getLoadOptions(model)));
+        setTuningModelId(model.id);
+    };
 
-        return { valid: true };
+    const updateLoadDraft = (changes: Partial<LoadOptionsDraft>) => {
+        setLoadDraft(current => current && { ...current, ...changes });
     };
 
-    const downloadResumable = (model: ModelConfig) => FileSystem.createDownloadResumable(
-        model.url,
-        getModelPath(model),
-        {},
-        (downloadProgress) => {
-            const progress = downloadProgress.totalBytesWritten / downloadProgress.totalBytesExpectedToWrite;
-            setDownloadProgress(progress);
-            setStatus(`Downloading ${model.name}: ${(progress * 100).toFixed(1)}%`);
-        },
-    );
+    // Load options only take effect when a context is created, so offer to recreate the active one
+    const saveLoadOptions = async (model: ModelConfig) => {
+        if (!loadDraft) return;
+
+        const { options, errors } = parseLoadOptionsDraft(loadDraft, model);
+        if (!options) {
+            Alert.alert('Invalid Load Options', errors.join('\n'));
+            return;
+        }
 
-    const downloadModel = async (model: ModelConfig) => {
         try {
-            console.log("🔄 Starting download/load for model:", model.name, "ID:", model.id);
-            setStatus("Checking for existing model...");
-            const modelPath = getModelPath(model);
-            const mmprojPath = model.mmprojUrl ? getMmprojPath(model) : null;
-            
-            const modelExists = (await FileSystem.getInfoAsync(modelPath)).exists;
-            const mmprojExists = mmprojPath ? (await FileSystem.getInfoAsync(mmprojPath)).exists : true;
-            
-            console.log("📁 Model exists:", modelExists, "Path:", modelPath);
-            console.log("📁 Mmproj exists:", mmprojExists, "Path:", mmprojPath || "none");
-            
-            const isExists = modelExists && mmprojExists;
-            
-            if (isExists) {
-                setStatus("Loading existing model...");
-                console.log("Model exists, loading...");
-                try {
-                    const context = await loadModel(modelPath, mmprojPath || undefined);
-                    console.log("✅ Model loaded successfully:", model.name, "ID:", model.id);
-                    setContext(context);
-                    setLoading(false);
-                    return;
-                } catch (loadError) {
-                    console.error("Error loading existing model:", loadError);
-                    console.log("Model file may be corrupted, will re-download...");
-                    // Delete corrupted file and re-download
-                    try {
-                        await FileSystem.deleteAsync(modelPath);
-                        if (mmprojPath) {
-                            await FileSystem.deleteAsync(mmprojPath);
+            const saved = await saveModelSettings(model.id, { loadOptions: diffLoadOptions(options, resolveLoadOptions(model)) });
+            setModelSettings(current => ({ ...current, [model.id]: saved }));
+        } catch (e) {
+            console.error("Error saving load options:", e);
+            Alert.alert("Save Failed", e instanceof Error ? e.message : "The load options could not be saved.");
+            return;
+        }
+        setTuningModelId(null);
+
+        if (lifecycle.phase === 'ready' && lifecycle.model.id === model.id) {
+            Alert.alert(
+                'Reload Model?',
+                `${model.name} is loaded with the previous options. Reload it now to apply the changes?`,
+                [
+                    { text: 'Later', style: 'cancel' },
+                    { text: 'Reload', onPress: () => reloadModel(model) }
+                ]
+            );
+        }
+    };
+
+    const confirmDeleteModel = (model: ModelConfig) => {
+        const isActive = model.id === selectedModel.id && !!context;
+        Alert.alert(
+            'Delete Model',
+            `Delete ${model.name} and free ${formatBytes(installedInfo[model.id]?.diskBytes ?? 0)}?` +
+                (isActive ? ' It is currently loaded and will be unloaded.' : '') +
+                (model.imported ? ' Imported models must be imported again to use them.' : ''),
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Delete',
+                    style: 'destructive',
+                    onPress: async () => {
+                        try {
+                            if (model.id === selectedModel.id) {
+                                console.log("Unloading active model before deletion:", model.name);
+                                await releaseActiveModel();
+                            }
+                            await deleteModelFiles(model);
+                            if (model.imported) {
+                                await removeImportedModel(model.id);
+                                await removeModelSettings(model.id);
+                                await removePerformanceHistory(model.id);
+                                setModels(current => current.filter(m => m.id !== model.id));
+                            }
+                            await refreshInstalledInfo();
+                        } catch (e) {
+                            console.error("Error deleting model:", e);
+                            Alert.alert("Delete Failed", e instanceof Error ? e.message : "The model could not be deleted.");
                         }
-                    } catch (deleteError) {
-                        console.error("Error deleting corrupted model:", deleteError);
                     }
                 }
-            }
+            ]
+        );
+    };
 
-            setStatus("Downloading model...");
-            const modelRes = await downloadResumable(model).downloadAsync();
-            console.log("Finished downloading model to ", modelRes?.uri);
+    const pickGgufFile = async (): Promise<PickedFile | null> => {
+        const result = await DocumentPicker.getDocumentAsync({
+            type: '*/*',
+            copyToCacheDirectory: true,
+        });
+        if (result.canceled || !result.assets[0]) {
+            return null;
+        }
+        return { uri: result.assets[0].uri, name: result.assets[0].name };
+    };
 
-            if (!modelRes?.uri) {
-                throw new Error("Model download failed - no URI returned");
-            }
+    const finishImport = async (modelFile: PickedFile, mmprojFile?: PickedFile) => {
+        setImportStatus(`Importing ${modelFile.name}...`);
+        try {
+            const model = await importModelFile(modelFile, mmprojFile, PARAMETER_LIMITS.maxContextLength);
+            setModels(current => [...current, model]);
+            Alert.alert("Model Added", `${model.name} (${model.quantization}, ${model.sizeGB}GB) is ready to use.`);
+        } catch (e) {
+            console.error("Error importing model:", e);
+            Alert.alert("Import Failed", e instanceof Error ? e.message : "The file could not be imported.");
+        } finally {
+            setImportStatus(null);
+        }
+    };
+
+    const addModelFromFile = async () => {
+        const modelFile = await pickGgufFile();
+        if (!modelFile) return;
 
-            // Download mmproj file if needed
-            let mmprojRes = null;
-            if (model.mmprojUrl && mmprojPath) {
-                setStatus("Downloading multimodal projection file...");
-                const mmprojResumable = FileSystem.createDownloadResumable(
-                    model.mmprojUrl,
-                    mmprojPath,
-                    {},
-                    (downloadProgress) => {
-                        const progress = downloadProgress.totalBytesWritten / downloadProgress.totalBytesExpectedToWrite;
-                        setDownloadProgress(progress);
+        Alert.alert(
+            'Vision Projector',
+            'Does this model come with an mmproj file for image input?',
+            [
+                { text: 'No', onPress: () => finishImport(modelFile) },
+                {
+                    text: 'Choose mmproj',
+                    onPress: async () => {
+                        const mmprojFile = await pickGgufFile();
+                        finishImport(modelFile, mmprojFile ?? undefined);
                     }
-                );
-                mmprojRes = await mmprojResumable.downloadAsync();
-                console.log("Finished downloading mmproj to ", mmprojRes?.uri);
-            }
+                }
+            ]
+        );
+    };
 
-            setStatus("Loading downloaded model...");
-            console.log("Loading model from:", modelRes.uri);
-            const context = await loadModel(modelRes.uri, mmprojPath || undefined);
-            console.log("✅ Model loaded successfully:", model.name, "ID:", model.id);
-            setContext(context);
-            setLoading(false);
+    const refreshConversations = async () => {
+        try {
+            const saved = await listConversations();
+            setConversations(saved);
+            return saved;
         } catch (e) {
-            console.error("Error in downloadModel:", e);
-            setError(e instanceof Error ? e.message : "Unknown error occurred");
-            setLoading(false);
+            console.error("Error listing conversations:", e);
+            return [];
         }
     };
 
-    const switchModel = async (newModel: ModelConfig) => {
-        const validation = validateModelSelection(newModel);
-        if (!validation.valid) {
-            Alert.alert("Model Too Large", validation.message);
-            return;
+    const openConversation = (id: string) => {
+        setActiveConversationId(id);
+        setCurrentTab('chat');
+        setShowSidebar(false);
+    };
+
+    const openSearchResult = (conversationId: string, messageId: string) => {
+        setFocusMessageId(messageId);
+        openConversation(conversationId);
+    };
+
+    const startNewConversation = () => {
+        openConversation(generateConversationId());
+    };
+
+    const confirmDeleteConversation = (conversation: ConversationSummary) => {
+        Alert.alert(
+            'Delete Chat',
+            `Delete "${conversation.title}"? This cannot be undone.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Delete',
+                    style: 'destructive',
+                    onPress: async () => {
+                        try {
+                            await deleteConversation(conversation.id);
+                            await deleteConversationImages(conversation.id);
+                            await removeConversationFromIndex(conversation.id);
+                            if (conversation.id === activeConversationId) {
+                                setActiveConversationId(generateConversationId());
+                            }
+                            await refreshConversations();
+                        } catch (e) {
+                            console.error("Error deleting conversation:", e);
+                            Alert.alert("Delete Failed", "The chat could not be deleted.");
+                        }
+                    }
+                }
+            ]
+        );
+    };
+
+    const exportConversation = async (summary: ConversationSummary, format: 'markdown' | 'json') => {
+        try {
+            const conversation = await loadConversation(summary.id);
+            if (!conversation) {
+                throw new Error("The chat could not be found.");
+            }
+            if (format === 'markdown') {
+                await exportConversationMarkdown(conversation);
+                return;
+            }
+            // Resolved the same way the chat screen does, so chats that never changed a setting still record them.
+            // Without the model there are no defaults to resolve against; the chat's own settings still go in the export.
+            const model = models.find(candidate => candidate.id === conversation.modelId);
+            const settings = model && mergeGenerationSettings(
+                getDefaultGenerationSettings(model, getContextBudget(getLoadOptions(model).n_ctx).responseTokens),
+                conversation.settings
+            );
+            await exportConversationJson(conversation, settings);
+        } catch (e) {
+            console.error("Error exporting conversation:", e);
+            Alert.alert("Export Failed", e instanceof Error ? e.message : "The chat could not be exported.");
         }
+    };
 
-        setSelectedModel(newModel);
-        setShowModelSelector(false);
-        setLoading(true);
-        setError(null);
-        setContext(null);
-        
-        // Download and load the new model
-        await downloadModel(newModel);
+    const importConversation = async () => {
+        const result = await DocumentPicker.getDocumentAsync({
+            type: ['application/json', 'text/plain'],
+            copyToCacheDirectory: true,
+        });
+        if (result.canceled || !result.assets[0]) return;
+
+        try {
+            const conversation = await importConversationJson(result.assets[0].uri);
+            await indexConversation(conversation);
+            await refreshConversations();
+            Alert.alert("Chat Imported", `"${conversation.title}" was added to your chats.`, [
+                { text: 'OK', style: 'cancel' },
+                { text: 'Open', onPress: () => openConversation(conversation.id) }
+            ]);
+        } catch (e) {
+            console.error("Error importing conversation:", e);
+            Alert.alert("Import Failed", e instanceof Error ? e.message : "The chat could not be imported.");
+        }
+    };
+
+    const submitRename = async () => {
+        if (!renamingConversation) return;
+
+        try {
+            await renameConversation(renamingConversation.id, renameText);
+            await refreshConversations();
+        } catch (e) {
+            console.error("Error renaming conversation:", e);
+            Alert.alert("Rename Failed", "The chat could not be renamed.");
+        }
+        setRenamingConversation(null);
     };
 
     useEffect(() => {
-        downloadModel(selectedModel);
+        if (currentTab !== 'chat' || showModelSelector) {
+            refreshInstalledInfo();
+        }
+    }, [currentTab, showModelSelector, models, context]);
+
+    useEffect(() => {
+        activateModel(selectedModel);
+
+        // Merge in the remote manifest; the bundled entries are usable until it arrives
+        Promise.all([loadModelCatalog(), loadImportedModels()]).then(([catalog, imported]) => {
+            if (catalog.errors.length > 0) {
+                console.log("⚠️  Model catalog issues:", catalog.errors);
+            }
+            const allModels = [...catalog.models, ...imported];
+            setModels(allModels);
+            setCatalogErrors(catalog.errors);
+            setSelectedModel(current => allModels.find(model => model.id === current.id) ?? current);
+        });
+
+        // Reopen the most recent chat from the last session
+        refreshConversations().then(saved => {
+            if (saved.length > 0) {
+                setActiveConversationId(saved[0].id);
+            }
+        });
     }, []);
 
-    if (error) {
+    const renderLoadOptionsEditor = (model: ModelConfig) => {
+        if (!loadDraft) return null;
+
         return (
-            <SafeAreaProvider>
-                <SafeAreaView style={{ flex: 1, padding: 20, justifyContent: 'center', alignItems: 'center' }}>
-                    <Text style={{ fontSize: 18, color: 'red', textAlign: 'center', marginBottom: 20 }}>
-                        Error: {error}
-                    </Text>
-                    <Text style={{ fontSize: 14, color: 'gray', textAlign: 'center', marginBottom: 20 }}>
-                        Try restarting the app or check your internet connection.
+            <View style={{
+                backgroundColor: '#ffffff',
+                borderWidth: 1,
+                borderColor: '#e5e7eb',
+                borderRadius: 12,
+                padding: 16,
+                marginTop: -4,
+                marginBottom: 12
+            }}>
+                <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginBottom: 8 }}>
+                    <Text style={{ fontSize: 14, fontWeight: '600', color: '#1f2937' }}>
+                        Advanced Load Options
                     </Text>
-                    <TouchableOpacity 
-                        style={{
-                            backgroundColor: '#6366f1',
-                            paddingHorizontal: 20,
-                            paddingVertical: 12,
-                            borderRadius: 8
-                        }}
-                        onPress={() => {
-                            setError(null);
-                            setLoading(true);
-                            downloadModel(selectedModel);
-                        }}
+                    <TouchableOpacity onPress={() => setLoadDraft(toLoadOptionsDraft(resolveLoadOptions(model)))}>
+                        <Text style={{ color: '#6366f1', fontSize: 13, fontWeight: '500' }}>
+                            Use Defaults
+                        </Text>
+                    </TouchableOpacity>
+                </View>
+
+                {getLoadFields(model).map(field => (
+                    <View
+                        key={field.key}
+                        style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', paddingVertical: 4 }}
                     >
-                        <Text style={{ color: 'white', fontWeight: '600' }}>Retry</Text>
+                        <Text style={{ fontSize: 13, color: '#374151' }}>
+                            {field.label}
+                            <Text style={{ color: '#9ca3af' }}> ({field.min}–{field.max})</Text>
+                        </Text>
+                        <TextInput
+                            style={{
+                                width: 90,
+                                borderWidth: 1,
+                                borderColor: '#e5e7eb',
+                                borderRadius: 8,
+                                paddingHorizontal: 10,
+                                paddingVertical: 4,
+                                fontSize: 13,
+                                color: '#1f2937',
+                                backgroundColor: '#f9fafb',
+                                textAlign: 'right'
+                            }}
+                            value={loadDraft[field.key]}
+                            onChangeText={value => updateLoadDraft({ [field.key]: value })}
+                            keyboardType="number-pad"
+                        />
+                    </View>
+                ))}
+
+                {LOAD_SWITCHES.map(option => (
+                    <View
+                        key={option.key}
+                        style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', paddingVertical: 4 }}
+                    >
+                        <Text style={{ fontSize: 13, color: '#374151' }}>{option.label}</Text>
+                        <Switch
+                            value={loadDraft[option.key]}
+                            onValueChange={value => updateLoadDraft({ [option.key]: value })}
+                            trackColor={{ true: '#6366f1' }}
+                        />
+                    </View>
+                ))}
+
+                {(['cache_type_k', 'cache_type_v'] as const).map(key => (
+                    <View
+                        key={key}
+                        style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', paddingVertical: 4 }}
+                    >
+                        <Text style={{ fontSize: 13, color: '#374151' }}>
+                            {key === 'cache_type_k' ? 'K cache type' : 'V cache type'}
+                        </Text>
+                        <View style={{ flexDirection: 'row' }}>
+                            {KV_CACHE_TYPES.map(type => (
+                                <TouchableOpacity
+                                    key={type}
+                                    onPress={() => updateLoadDraft({ [key]: type })}
+                                    style={{
+                                        paddingHorizontal: 10,
+                                        paddingVertical: 4,
+                                        marginLeft: 4,
+                                        borderRadius: 6,
+                                        backgroundColor: loadDraft[key] === type ? '#6366f1' : '#f3f4f6'
+                                    }}
+                                >
+                                    <Text style={{ fontSize: 12, color: loadDraft[key] === type ? '#ffffff' : '#374151' }}>
+                                        {type}
+                                    </Text>
+                                </TouchableOpacity>
+                            ))}
+                        </View>
+                    </View>
+                ))}
+
+                <Text style={{ fontSize: 12, color: '#9ca3af', marginTop: 8 }}>
+                    Quantizing the V cache needs flash attention. Changes apply the next time {model.name} loads.
+                </Text>
+
+                <View style={{ flexDirection: 'row', justifyContent: 'flex-end', marginTop: 12 }}>
+                    <TouchableOpacity
+                        onPress={() => setTuningModelId(null)}
+                        style={{ paddingHorizontal: 16, paddingVertical: 6, marginRight: 8 }}
+                    >
+                        <Text style={{ color: '#6b7280', fontSize: 14 }}>Cancel</Text>
                     </TouchableOpacity>
-                </SafeAreaView>
-            </SafeAreaProvider>
+                    <TouchableOpacity
+                        onPress={() => saveLoadOptions(model)}
+                        style={{ paddingHorizontal: 16, paddingVertical: 6, borderRadius: 8, backgroundColor: '#6366f1' }}
+                    >
+                        <Text style={{ color: '#ffffff', fontSize: 14, fontWeight: '600' }}>Save</Text>
+                    </TouchableOpacity>
+                </View>
+            </View>
         );
-    }
+    };
+
+    // Measured speed per quantization and load setup, from replies generated on this device
+    const renderPerformance = (model: ModelConfig) => {
+        const summaries = summarizePerformance(performance[model.id] ?? []);
+        if (summaries.length === 0) return null;
 
-    if (loading) {
         return (
-            <SafeAreaProvider>
-                <SafeAreaView style={{ flex: 1, padding: 20, justifyContent: 'center', alignItems: 'center' }}>
-                    <ActivityIndicator size="large" color="#007AFF" style={{ marginBottom: 20 }} />
-                    <Text style={{ fontSize: 16, textAlign: 'center', marginBottom: 8 }}>
-                        {status}
+            <View style={{ marginTop: 8, paddingTop: 8, borderTopWidth: 1, borderTopColor: '#e5e7eb' }}>
+                <Text style={{ fontSize: 12, fontWeight: '600', color: '#374151' }}>
+                    Performance on this device
+                </Text>
+                {summaries.map(summary => (
+                    <View key={summary.configuration} style={{ marginTop: 4 }}>
+                        <Text style={{ fontSize: 12, color: '#374151' }}>
+                            {summary.tokensPerSecond.toFixed(1)} tok/s
+                            {summary.timeToFirstTokenMs !== undefined && ` • first token ${(summary.timeToFirstTokenMs / 1000).toFixed(1)} s`}
+                            <Text style={{ color: '#9ca3af' }}> ({summary.samples} {summary.samples === 1 ? 'reply' : 'replies'})</Text>
+                        </Text>
+                        <Text style={{ fontSize: 11, color: '#9ca3af' }}>{summary.configuration}</Text>
+                    </View>
+                ))}
+            </View>
+        );
+    };
+
+    const renderModelFit = (fit: ModelFit | null) => {
+        if (!fit) return null;
+
+        return (
+            <View style={{ marginTop: 8 }}>
+                <Text style={{ fontSize: 12, fontWeight: '600', color: FIT_COLORS[fit.rating] }}>
+                    {FIT_LABELS[fit.rating]}
+                </Text>
+                {fit.reasons.map((reason, index) => (
+                    <Text key={index} style={{ fontSize: 12, color: '#6b7280', marginTop: 2 }}>
+                        {reason}
                     </Text>
-                    <Text style={{ fontSize: 14, color: 'gray', textAlign: 'center', marginBottom: 20 }}>
-                        Current Model: {selectedModel.name}
+                ))}
+            </View>
+        );
+    };
+
+    const renderDownloadControls = () => {
+        if (!download) return null;
+
+        const fraction = download.bytesTotal > 0 ? Math.min(1, download.bytesWritten / download.bytesTotal) : 0;
+        const isPaused = download.state === 'paused';
+        const canControl = download.state === 'downloading' || isPaused;
+
+        return (
+            <View style={{ width: '100%', alignItems: 'center', marginBottom: 16 }}>
+                <View style={{
+                    width: '80%',
+                    height: 6,
+                    borderRadius: 3,
+                    backgroundColor: '#e5e7eb',
+                    overflow: 'hidden',
+                    marginBottom: 8
+                }}>
+                    <View style={{
+                        width: `${fraction * 100}%`,
+                        height: '100%',
+                        backgroundColor: isPaused ? '#9ca3af' : '#6366f1'
+                    }} />
+                </View>
+                <Text style={{ fontSize: 12, color: '#6b7280', marginBottom: 12 }}>
+                    {(download.bytesWritten / 1e9).toFixed(2)}GB
+                    {download.bytesTotal > 0 && ` of ${(download.bytesTotal / 1e9).toFixed(2)}GB`}
+                </Text>
+                {download.error && download.state === 'retrying' && (
+                    <Text style={{ fontSize: 12, color: '#dc2626', textAlign: 'center', marginBottom: 12 }}>
+                        {download.error}
                     </Text>
-                    <TouchableOpacity 
-                        style={{
-                            backgroundColor: '#f3f4f6',
-                            paddingHorizontal: 16,
-                            paddingVertical: 8,
-                            borderRadius: 6
-                        }}
-                        onPress={() => setShowModelSelector(true)}
-                    >
-                        <Text style={{ color: '#6b7280', fontSize: 14 }}>Switch Model</Text>
-                    </TouchableOpacity>
-                </SafeAreaView>
-            </SafeAreaProvider>
+                )}
+                {canControl && (
+                    <View style={{ flexDirection: 'row' }}>
+                        <TouchableOpacity
+                            style={{
+                                flexDirection: 'row',
+                                alignItems: 'center',
+                                backgroundColor: '#6366f1',
+                                paddingHorizontal: 16,
+                                paddingVertical: 8,
+                                borderRadius: 6,
+                                marginRight: 8
+                            }}
+                            onPress={() => isPaused ? resumeDownload(download.key) : pauseDownload(download.key)}
+                        >
+                            <Ionicons name={isPaused ? 'play' : 'pause'} size={14} color="#ffffff" />
+                            <Text style={{ color: '#ffffff', fontSize: 14, fontWeight: '600', marginLeft: 6 }}>
+                                {isPaused ? 'Resume' : 'Pause'}
+                            </Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                            style={{
+                                paddingHorizontal: 16,
+                                paddingVertical: 8,
+                                borderRadius: 6,
+                                borderWidth: 1,
+                                borderColor: '#ef4444'
+                            }}
+                            onPress={() => cancelDownload(download.key)}
+                        >
+                            <Text style={{ color: '#ef4444', fontSize: 14, fontWeight: '500' }}>Cancel</Text>
+                        </TouchableOpacity>
+                    </View>
+                )}
+            </View>
         );
-    }
+    };
 
     const renderSidebar = () => (
         <View style={{
@@ -362,6 +771,183 @@ export default () => {
                             Models
                         </Text>
                     </TouchableOpacity>
+
+                    <TouchableOpacity
+                        style={{
+                            flexDirection: 'row',
+                            alignItems: 'center',
+                            paddingVertical: 16,
+                            borderBottomWidth: 1,
+                            borderBottomColor: '#f3f4f6'
+                        }}
+                        onPress={() => {
+                            setCurrentTab('benchmark');
+                            setShowSidebar(false);
+                        }}
+                    >
+                        <Ionicons 
+                            name="speedometer" 
+                            size={20} 
+                            color={currentTab === 'benchmark' ? '#6366f1' : '#6b7280'} 
+                        />
+                        <Text style={{
+                            marginLeft: 12,
+                            fontSize: 16,
+                            fontWeight: currentTab === 'benchmark' ? '600' : '400',
+                            color: currentTab === 'benchmark' ? '#6366f1' : '#1f2937'
+                        }}>
+                            Benchmark
+                        </Text>
+                    </TouchableOpacity>
+
+                    <TouchableOpacity
+                        style={{
+                            flexDirection: 'row',
+                            alignItems: 'center',
+                            paddingVertical: 16,
+                            borderBottomWidth: 1,
+                            borderBottomColor: '#f3f4f6'
+                        }}
+                        onPress={() => {
+                            setCurrentTab('search');
+                            setShowSidebar(false);
+                        }}
+                    >
+                        <Ionicons 
+                            name="search" 
+                            size={20} 
+                            color={currentTab === 'search' ? '#6366f1' : '#6b7280'} 
+                        />
+                        <Text style={{
+                            marginLeft: 12,
+                            fontSize: 16,
+                            fontWeight: currentTab === 'search' ? '600' : '400',
+                            color: currentTab === 'search' ? '#6366f1' : '#1f2937'
+                        }}>
+                            Search Chats
+                        </Text>
+                    </TouchableOpacity>
+
+                    <TouchableOpacity
+                        style={{
+                            flexDirection: 'row',
+                            alignItems: 'center',
+                            paddingVertical: 16,
+                            borderBottomWidth: 1,
+                            borderBottomColor: '#f3f4f6'
+                        }}
+                        onPress={() => {
+                            setCurrentTab('personas');
+                            setShowSidebar(false);
+                        }}
+                    >
+                        <Ionicons 
+                            name="person-circle" 
+                            size={20} 
+                            color={currentTab === 'personas' ? '#6366f1' : '#6b7280'} 
+                        />
+                        <Text style={{
+                            marginLeft: 12,
+                            fontSize: 16,
+                            fontWeight: currentTab === 'personas' ? '600' : '400',
+                            color: currentTab === 'personas' ? '#6366f1' : '#1f2937'
+                        }}>
+                            Personas
+                        </Text>
+                    </TouchableOpacity>
+
+                    <View style={{
+                        flexDirection: 'row',
+                        alignItems: 'center',
+                        justifyContent: 'space-between',
+                        marginTop: 24,
+                        marginBottom: 8
+                    }}>
+                        <Text style={{ fontSize: 14, fontWeight: '600', color: '#6b7280' }}>
+                            Chats
+                        </Text>
+                        <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+                            <TouchableOpacity
+                                style={{ flexDirection: 'row', alignItems: 'center', marginRight: 16 }}
+                                onPress={importConversation}
+                            >
+                                <Ionicons name="download-outline" size={16} color="#6366f1" />
+                                <Text style={{ marginLeft: 4, fontSize: 14, fontWeight: '600', color: '#6366f1' }}>
+                                    Import
+                                </Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                                style={{ flexDirection: 'row', alignItems: 'center' }}
+                                onPress={startNewConversation}
+                            >
+                                <Ionicons name="add" size={18} color="#6366f1" />
+                                <Text style={{ marginLeft: 4, fontSize: 14, fontWeight: '600', color: '#6366f1' }}>
+                                    New Chat
+                                </Text>
+                            </TouchableOpacity>
+                        </View>
+                    </View>
+
+                    {conversations.length === 0 && (
+                        <Text style={{ fontSize: 14, color: '#9ca3af', paddingVertical: 12 }}>
+                            No saved chats yet
+                        </Text>
+                    )}
+
+                    {conversations.map((conversation) => {
+                        const isActive = conversation.id === activeConversationId;
+
+                        return (
+                            <TouchableOpacity
+                                key={conversation.id}
+                                style={{
+                                    flexDirection: 'row',
+                                    alignItems: 'center',
+                                    paddingVertical: 12,
+                                    borderBottomWidth: 1,
+                                    borderBottomColor: '#f3f4f6'
+                                }}
+                                onPress={() => openConversation(conversation.id)}
+                            >
+                                <View style={{ flex: 1 }}>
+                                    <Text
+                                        numberOfLines={1}
+                                        style={{
+                                            fontSize: 15,
+                                            fontWeight: isActive ? '600' : '400',
+                                            color: isActive ? '#6366f1' : '#1f2937'
+                                        }}
+                                    >
+                                        {conversation.title}
+                                    </Text>
+                                    <Text style={{ fontSize: 12, color: '#9ca3af', marginTop: 2 }}>
+                                        {new Date(conversation.updatedAt).toLocaleDateString()} • {conversation.messageCount} messages
+                                    </Text>
+                                </View>
+                                <TouchableOpacity
+                                    style={{ padding: 6 }}
+                                    onPress={() => {
+                                        setRenameText(conversation.title);
+                                        setRenamingConversation(conversation);
+                                    }}
+                                >
+                                    <Ionicons name="pencil" size={16} color="#6b7280" />
+                                </TouchableOpacity>
+                                <TouchableOpacity
+                                    style={{ padding: 6 }}
+                                    onPress={() => setExportingConversation(conversation)}
+                                >
+                                    <Ionicons name="share-outline" size={16} color="#6b7280" />
+                                </TouchableOpacity>
+                                <TouchableOpacity
+                                    style={{ padding: 6 }}
+                                    onPress={() => confirmDeleteConversation(conversation)}
+                                >
+                                    <Ionicons name="trash" size={16} color="#ef4444" />
+                                </TouchableOpacity>
+                            </TouchableOpacity>
+                        );
+                    })}
                 </ScrollView>
             </SafeAreaView>
         </View>
@@ -392,72 +978,182 @@ export default () => {
                         Models
                     </Text>
                 </View>
+                <TouchableOpacity
+                    style={{
+                        flexDirection: 'row',
+                        alignItems: 'center',
+                        paddingHorizontal: 12,
+                        paddingVertical: 6,
+                        borderRadius: 16,
+                        backgroundColor: importStatus ? '#e5e7eb' : '#6366f1'
+                    }}
+                    onPress={addModelFromFile}
+                    disabled={!!importStatus}
+                >
+                    <Ionicons name="add" size={16} color={importStatus ? '#9ca3af' : '#ffffff'} />
+                    <Text style={{ marginLeft: 4, fontSize: 14, fontWeight: '600', color: importStatus ? '#9ca3af' : '#ffffff' }}>
+                        Add Model
+                    </Text>
+                </TouchableOpacity>
             </View>
 
+            {importStatus && (
+                <View style={{
+                    flexDirection: 'row',
+                    alignItems: 'center',
+                    backgroundColor: '#f0f9ff',
+                    paddingHorizontal: 16,
+                    paddingVertical: 8
+                }}>
+                    <ActivityIndicator size="small" color="#0ea5e9" style={{ marginRight: 8 }} />
+                    <Text style={{ fontSize: 14, color: '#0369a1' }}>{importStatus}</Text>
+                </View>
+            )}
+
             <ScrollView style={{ flex: 1, padding: 16 }}>
                 <Text style={{ fontSize: 16, color: '#6b7280', marginBottom: 20 }}>
                     Choose a model based on your device capabilities and needs:
                 </Text>
+
+                <View style={{
+                    flexDirection: 'row',
+                    justifyContent: 'space-between',
+                    backgroundColor: '#f8fafc',
+                    borderRadius: 8,
+                    padding: 12,
+                    marginBottom: 16
+                }}>
+                    <Text style={{ fontSize: 12, color: '#6b7280' }}>
+                        Models on device: {formatBytes(Object.values(installedInfo).reduce((total, info) => total + info.diskBytes, 0))}
+                    </Text>
+                    <Text style={{ fontSize: 12, color: '#6b7280' }}>
+                        Free space: {freeDiskBytes !== null ? formatBytes(freeDiskBytes) : '…'}
+                    </Text>
+                    <Text style={{ fontSize: 12, color: '#6b7280' }}>
+                        Memory: {deviceProfile?.totalMemoryBytes ? formatBytes(deviceProfile.totalMemoryBytes) : '…'}
+                        {deviceProfile?.estimatedAppMemoryBytes ? ` (about ${formatBytes(deviceProfile.estimatedAppMemoryBytes)} usable by apps, estimated)` : ''}
+                    </Text>
+                </View>
+
+                {catalogErrors.length > 0 && (
+                    <View style={{
+                        backgroundColor: '#fffbeb',
+                        borderWidth: 1,
+                        borderColor: '#fde68a',
+                        borderRadius: 8,
+                        padding: 12,
+                        marginBottom: 16
+                    }}>
+                        <Text style={{ fontSize: 14, fontWeight: '600', color: '#b45309', marginBottom: 4 }}>
+                            Some catalog entries were skipped
+                        </Text>
+                        {catalogErrors.map((catalogError, index) => (
+                            <Text key={index} style={{ fontSize: 12, color: '#92400e', marginTop: 2 }}>
+                                {catalogError}
+                            </Text>
+                        ))}
+                    </View>
+                )}
                 
-                {AVAILABLE_MODELS.map((model) => {
+                {models.map((model) => {
                     const validation = validateModelSelection(model);
                     const isCurrentModel = model.id === selectedModel.id;
+                    const info = installedInfo[model.id];
                     
                     return (
-                        <TouchableOpacity
-                            key={model.id}
-                            style={{
-                                backgroundColor: isCurrentModel ? '#f0f9ff' : '#f8fafc',
-                                borderWidth: 1,
-                                borderColor: isCurrentModel ? '#0ea5e9' : '#e5e7eb',
-                                borderRadius: 12,
-                                padding: 16,
-                                marginBottom: 12,
-                                opacity: validation.valid ? 1 : 0.5
-                            }}
-                            onPress={() => validation.valid && switchModel(model)}
-                            disabled={!validation.valid}
-                        >
-                            <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'flex-start', marginBottom: 8 }}>
-                                <Text style={{ 
-                                    fontSize: 16, 
-                                    fontWeight: '600', 
-                                    color: '#1f2937',
-                                    flex: 1
-                                }}>
-                                    {model.name}
-                                    {model.recommended && (
-                                        <Text style={{ color: '#059669', fontSize: 12, marginLeft: 8 }}>
-                                            ★ Recommended
+                        <View key={model.id}>
+                            <TouchableOpacity
+                                style={{
+                                    backgroundColor: isCurrentModel ? '#f0f9ff' : '#f8fafc',
+                                    borderWidth: 1,
+                                    borderColor: isCurrentModel ? '#0ea5e9' : '#e5e7eb',
+                                    borderRadius: 12,
+                                    padding: 16,
+                                    marginBottom: 12,
+                                    opacity: validation.valid ? 1 : 0.5
+                                }}
+                                onPress={() => validation.valid && requestSwitchModel(model)}
+                                disabled={!validation.valid}
+                            >
+                                <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'flex-start', marginBottom: 8 }}>
+                                    <Text style={{ 
+                                        fontSize: 16, 
+                                        fontWeight: '600', 
+                                        color: '#1f2937',
+                                        flex: 1
+                                    }}>
+                                        {model.name}
+                                        {model.recommended && (
+                                            <Text style={{ color: '#059669', fontSize: 12, marginLeft: 8 }}>
+                                                ★ Recommended
+                                            </Text>
+                                        )}
+                                    </Text>
+                                    {isCurrentModel && (
+                                        <Text style={{ color: '#0ea5e9', fontSize: 12, fontWeight: '600' }}>
+                                            Current
                                         </Text>
                                     )}
-                                </Text>
-                                {isCurrentModel && (
-                                    <Text style={{ color: '#0ea5e9', fontSize: 12, fontWeight: '600' }}>
-                                        Current
-                                    </Text>
-                                )}
-                            </View>
+                                </View>
                             
-                            <Text style={{ fontSize: 14, color: '#6b7280', marginBottom: 8 }}>
-                                {model.description}
-                            </Text>
-                            
-                            <View style={{ flexDirection: 'row', justifyContent: 'space-between' }}>
-                                <Text style={{ fontSize: 12, color: '#6b7280' }}>
-                                    Size: {model.sizeGB}GB
-                                </Text>
-                                <Text style={{ fontSize: 12, color: '#6b7280' }}>
-                                    Context: {model.maxParams}
+                                <Text style={{ fontSize: 14, color: '#6b7280', marginBottom: 8 }}>
+                                    {model.description}
                                 </Text>
-                            </View>
                             
-                            {!validation.valid && (
-                                <Text style={{ fontSize: 12, color: '#dc2626', marginTop: 8 }}>
-                                    {validation.message}
-                                </Text>
-                            )}
-                        </TouchableOpacity>
+                                <View style={{ flexDirection: 'row', justifyContent: 'space-between' }}>
+                                    <Text style={{ fontSize: 12, color: '#6b7280' }}>
+                                        Size: {formatBytes(getDownloadBytes(model))}
+                                    </Text>
+                                    <Text style={{ fontSize: 12, color: '#6b7280' }}>
+                                        Context: {getLoadOptions(model).n_ctx}
+                                    </Text>
+                                </View>
+
+                                <View style={{
+                                    flexDirection: 'row',
+                                    alignItems: 'center',
+                                    justifyContent: 'space-between',
+                                    marginTop: 8,
+                                    paddingTop: 8,
+                                    borderTopWidth: 1,
+                                    borderTopColor: '#e5e7eb'
+                                }}>
+                                    {info?.installed ? (
+                                        <Text style={{ fontSize: 12, color: '#059669', flex: 1 }}>
+                                            Installed • {formatBytes(info.diskBytes)} on disk • {formatLastUsed(info.lastUsedAt)}
+                                        </Text>
+                                    ) : (
+                                        <Text style={{ fontSize: 12, color: '#6b7280', flex: 1 }}>
+                                            {info?.partial
+                                                ? `Partially downloaded • ${formatBytes(info.diskBytes)} of ${formatBytes(getDownloadBytes(model))}`
+                                                : `Not installed • ${formatBytes(getDownloadBytes(model))} download`}
+                                        </Text>
+                                    )}
+                                    <TouchableOpacity
+                                        style={{ padding: 4, marginLeft: 8 }}
+                                        onPress={() => toggleLoadOptions(model)}
+                                    >
+                                        <Ionicons
+                                            name={tuningModelId === model.id ? 'options' : 'options-outline'}
+                                            size={16}
+                                            color="#6366f1"
+                                        />
+                                    </TouchableOpacity>
+                                    {(info?.installed || info?.partial) && (
+                                        <TouchableOpacity
+                                            style={{ padding: 4, marginLeft: 8 }}
+                                            onPress={() => confirmDeleteModel(model)}
+                                        >
+                                            <Ionicons name="trash" size={16} color="#ef4444" />
+                                        </TouchableOpacity>
+                                    )}
+                                </View>
+                            
+                                {renderModelFit(validation.fit)}
+                                {renderPerformance(model)}
+                            </TouchableOpacity>
+                            {tuningModelId === model.id && renderLoadOptionsEditor(model)}
+                        </View>
                     );
                 })}
             </ScrollView>
@@ -466,12 +1162,14 @@ export default () => {
 
     return (
         <SafeAreaProvider>
-            {loading ? (
+            {/* The benchmark loads models itself and the other screens don't need one, so they stay on screen while the lifecycle is busy */}
+            {loading && !MODEL_FREE_TABS.includes(currentTab) ? (
                 <SafeAreaView style={{ flex: 1, padding: 20, justifyContent: 'center', alignItems: 'center' }}>
                     <ActivityIndicator size="large" color="#007AFF" style={{ marginBottom: 20 }} />
                     <Text style={{ fontSize: 16, textAlign: 'center', marginBottom: 8 }}>
                         {status}
                     </Text>
+                    {renderDownloadControls()}
                     <Text style={{ fontSize: 14, color: 'gray', textAlign: 'center', marginBottom: 20 }}>
                         Current Model: {selectedModel.name}
                     </Text>
@@ -487,7 +1185,7 @@ export default () => {
                         <Text style={{ color: '#6b7280', fontSize: 14 }}>Switch Model</Text>
                     </TouchableOpacity>
                 </SafeAreaView>
-            ) : error ? (
+            ) : error && !MODEL_FREE_TABS.includes(currentTab) ? (
                 <SafeAreaView style={{ flex: 1, padding: 20, justifyContent: 'center', alignItems: 'center' }}>
                     <Text style={{ fontSize: 18, color: 'red', textAlign: 'center', marginBottom: 20 }}>
                         Error: {error}
@@ -502,11 +1200,7 @@ export default () => {
                             paddingVertical: 12,
                             borderRadius: 8
                         }}
-                        onPress={() => {
-                            setError(null);
-                            setLoading(true);
-                            downloadModel(selectedModel);
-                        }}
+                        onPress={() => activateModel(selectedModel)}
                     >
                         <Text style={{ color: 'white', fontWeight: '600' }}>Retry</Text>
                     </TouchableOpacity>
@@ -515,10 +1209,57 @@ export default () => {
                 <View style={{ flex: 1 }}>
                     {currentTab === 'chat' ? (
                         <View style={{ flex: 1, padding: 4 }}>
-                            {context && <Chat context={context} selectedModel={selectedModel} onMenuPress={() => setShowSidebar(true)} />}
+                            {context && loadedOptions ? (
+                                <Chat
+                                    key={activeConversationId}
+                                    context={context}
+                                    selectedModel={selectedModel}
+                                    loadOptions={loadedOptions}
+                                    conversationId={activeConversationId}
+                                    onMenuPress={() => setShowSidebar(true)}
+                                    onConversationSaved={refreshConversations}
+                                    onManagePersonas={() => setCurrentTab('personas')}
+                                    focusMessageId={focusMessageId ?? undefined}
+                                    onFocusHandled={() => setFocusMessageId(null)}
+                                />
+                            ) : (
+                                <SafeAreaView style={{ flex: 1, padding: 20, justifyContent: 'center', alignItems: 'center' }}>
+                                    <Text style={{ fontSize: 16, textAlign: 'center', marginBottom: 20 }}>
+                                        No model is loaded.
+                                    </Text>
+                                    <TouchableOpacity
+                                        style={{
+                                            backgroundColor: '#6366f1',
+                                            paddingHorizontal: 20,
+                                            paddingVertical: 12,
+                                            borderRadius: 8
+                                        }}
+                                        onPress={() => setCurrentTab('models')}
+                                    >
+                                        <Text style={{ color: 'white', fontWeight: '600' }}>Choose a Model</Text>
+                                    </TouchableOpacity>
+                                </SafeAreaView>
+                            )}
                         </View>
-                    ) : (
+                    ) : currentTab === 'models' ? (
                         renderModelsTab()
+                    ) : currentTab === 'personas' ? (
+                        <PersonaScreen onMenuPress={() => setShowSidebar(true)} />
+                    ) : currentTab === 'search' ? (
+                        <SearchScreen
+                            conversations={conversations}
+                            onMenuPress={() => setShowSidebar(true)}
+                            onOpenResult={openSearchResult}
+                        />
+                    ) : (
+                        <BenchmarkScreen
+                            installedModels={models.filter(model => installedInfo[model.id]?.installed)}
+                            onMenuPress={() => setShowSidebar(true)}
+                            onFinished={() => {
+                                activateModel(selectedModel);
+                                refreshInstalledInfo();
+                            }}
+                        />
                     )}
                     
                     {showSidebar && (
@@ -541,6 +1282,72 @@ export default () => {
                 </View>
             )}
 
+            <ActionSheet
+                visible={exportingConversation !== null}
+                title={exportingConversation ? `Export "${exportingConversation.title}"` : undefined}
+                actions={exportingConversation ? [
+                    { label: 'Markdown (readable)', icon: 'document-text-outline', onPress: () => exportConversation(exportingConversation, 'markdown') },
+                    { label: 'JSON (re-importable, with images)', icon: 'code-slash-outline', onPress: () => exportConversation(exportingConversation, 'json') }
+                ] : []}
+                onClose={() => setExportingConversation(null)}
+            />
+
+            {/* Rename Chat Modal */}
+            <Modal
+                visible={renamingConversation !== null}
+                animationType="fade"
+                transparent
+            >
+                <View style={{
+                    flex: 1,
+                    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+                    justifyContent: 'center',
+                    padding: 24
+                }}>
+                    <View style={{ backgroundColor: '#ffffff', borderRadius: 12, padding: 16 }}>
+                        <Text style={{ fontSize: 18, fontWeight: '600', color: '#1f2937', marginBottom: 12 }}>
+                            Rename Chat
+                        </Text>
+                        <TextInput
+                            style={{
+                                borderWidth: 1,
+                                borderColor: '#e5e7eb',
+                                borderRadius: 8,
+                                padding: 12,
+                                fontSize: 16,
+                                color: '#1f2937',
+                                backgroundColor: '#f9fafb'
+                            }}
+                            value={renameText}
+                            onChangeText={setRenameText}
+                            placeholder="Chat name"
+                            placeholderTextColor="#9ca3af"
+                            autoFocus
+                            onSubmitEditing={submitRename}
+                        />
+                        <View style={{ flexDirection: 'row', justifyContent: 'flex-end', marginTop: 16 }}>
+                            <TouchableOpacity
+                                style={{ paddingHorizontal: 16, paddingVertical: 8, marginRight: 8 }}
+                                onPress={() => setRenamingConversation(null)}
+                            >
+                                <Text style={{ color: '#6b7280', fontSize: 14, fontWeight: '500' }}>Cancel</Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                                style={{
+                                    paddingHorizontal: 16,
+                                    paddingVertical: 8,
+                                    borderRadius: 8,
+                                    backgroundColor: '#6366f1'
+                                }}
+                                onPress={submitRename}
+                            >
+                                <Text style={{ color: '#ffffff', fontSize: 14, fontWeight: '600' }}>Save</Text>
+                            </TouchableOpacity>
+                        </View>
+                    </View>
+                </View>
+            </Modal>
+
             {/* Model Selector Modal */}
             <Modal
                 visible={showModelSelector}
@@ -570,7 +1377,7 @@ export default () => {
                             Choose a model based on your device capabilities and needs:
                         </Text>
                         
-                        {AVAILABLE_MODELS.map((model) => {
+                        {models.map((model) => {
                             const validation = validateModelSelection(model);
                             const isCurrentModel = model.id === selectedModel.id;
                             
@@ -586,7 +1393,7 @@ export default () => {
                                         marginBottom: 12,
                                         opacity: validation.valid ? 1 : 0.5
                                     }}
-                                    onPress={() => validation.valid && switchModel(model)}
+                                    onPress={() => validation.valid && requestSwitchModel(model)}
                                     disabled={!validation.valid}
                                 >
                                     <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'flex-start', marginBottom: 8 }}>
@@ -616,18 +1423,14 @@ export default () => {
                                     
                                     <View style={{ flexDirection: 'row', justifyContent: 'space-between' }}>
                                         <Text style={{ fontSize: 12, color: '#6b7280' }}>
-                                            Size: {model.sizeGB}GB
+                                            Size: {formatBytes(getDownloadBytes(model))}
                                         </Text>
                                         <Text style={{ fontSize: 12, color: '#6b7280' }}>
-                                            Context: {model.maxParams}
+                                            Context: {getLoadOptions(model).n_ctx}
                                         </Text>
                                     </View>
                                     
-                                    {!validation.valid && (
-                                        <Text style={{ fontSize: 12, color: '#dc2626', marginTop: 8 }}>
-                                            {validation.message}
-                                        </Text>
-                                    )}
+                                    {renderModelFit(validation.fit)}
                                 </TouchableOpacity>
                             );
                         })}
@@ -0,0 +1,55 @@
+import React from "react";
+import { Modal, Text, TouchableOpacity, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from '@expo/vector-icons';
+
+export interface SheetAction {
+    label: string;
+    icon: keyof typeof Ionicons.glyphMap;
+    destructive?: boolean;
+    onPress: () => void;
+}
+
+// Bottom sheet of actions; Alert can't be used because Android shows at most three buttons
+export default ({ visible, title, actions, onClose }: {
+    visible: boolean;
+    title?: string;
+    actions: SheetAction[];
+    onClose: () => void;
+}) => (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+        <View style={{ flex: 1, justifyContent: 'flex-end' }}>
+            <TouchableOpacity
+                activeOpacity={1}
+                onPress={onClose}
+                style={{ position: 'absolute', top: 0, left: 0, right: 0, bottom: 0, backgroundColor: 'rgba(0, 0, 0, 0.4)' }}
+            />
+            <SafeAreaView edges={['bottom']} style={{ backgroundColor: '#ffffff', borderTopLeftRadius: 16, borderTopRightRadius: 16 }}>
+                {title && (
+                    <Text
+                        numberOfLines={2}
+                        style={{ fontSize: 13, color: '#6b7280', paddingHorizontal: 20, paddingTop: 16, paddingBottom: 8 }}
+                    >
+                        {title}
+                    </Text>
+                )}
+                {actions.map(action => (
+                    <TouchableOpacity
+                        key={action.label}
+                        onPress={() => {
+                            onClose();
+                            action.onPress();
+                        }}
+                        style={{ flexDirection: 'row', alignItems: 'center', paddingHorizontal: 20, paddingVertical: 14 }}
+                    >
+                        <Ionicons name={action.icon} size={20} color={action.destructive ? '#ef4444' : '#374151'} />
+                        <Text style={{ marginLeft: 12, fontSize: 16, color: action.destructive ? '#ef4444' : '#1f2937' }}>
+                            {action.label}
+                        </Text>
+                    </TouchableOpacity>
+                ))}
+                <View style={{ height: 8 }} />
+            </SafeAreaView>
+        </View>
+    </Modal>
+);
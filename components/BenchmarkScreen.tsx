@@ -0,0 +1,177 @@
+import React, { useEffect, useRef, useState } from "react";
+import { ActivityIndicator, Alert, ScrollView, Text, TouchableOpacity, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from '@expo/vector-icons';
+import { ModelConfig } from "@/models/catalog";
+import { formatBytes } from "@/models/installedModels";
+import {
+    BenchmarkRun,
+    deleteBenchmarkRun,
+    exportBenchmarkRun,
+    loadBenchmarkRuns,
+    ModelBenchmark,
+    runBenchmark
+} from "@/models/benchmark";
+
+const formatRate = (perSecond?: number) => perSecond !== undefined ? `${perSecond.toFixed(1)} tok/s` : '—';
+
+const ResultRow = ({ result }: { result: ModelBenchmark }) => (
+    <View style={{ paddingVertical: 8, borderTopWidth: 1, borderTopColor: '#e5e7eb' }}>
+        <Text style={{ fontSize: 14, fontWeight: '600', color: '#1f2937' }}>
+            {result.modelName}
+            <Text style={{ fontSize: 12, fontWeight: '400', color: '#9ca3af' }}> {result.quantization}{result.gpu ? ' • GPU' : ''}</Text>
+        </Text>
+        {result.error ? (
+            <Text style={{ fontSize: 12, color: '#dc2626', marginTop: 2 }}>{result.error}</Text>
+        ) : (
+            <>
+                <Text style={{ fontSize: 12, color: '#374151', marginTop: 2 }}>
+                    Load {result.loadMs !== undefined ? `${(result.loadMs / 1000).toFixed(1)} s` : '—'}
+                    {' • '}Prompt {formatRate(result.promptTokensPerSecond)}
+                    {' • '}Generation {formatRate(result.tokensPerSecond)}
+                </Text>
+                <Text style={{ fontSize: 12, color: '#6b7280', marginTop: 2 }}>
+                    Est. memory ~{result.estimatedMemoryBytes !== undefined ? formatBytes(result.estimatedMemoryBytes) : '—'}
+                    {' • '}ctx {result.loadOptions.n_ctx} • GPU layers {result.loadOptions.n_gpu_layers}
+                </Text>
+            </>
+        )}
+    </View>
+);
+
+// Runs the fixed benchmark over every installed model and keeps past runs for export
+export default ({ installedModels, onMenuPress, onFinished }: {
+    installedModels: ModelConfig[];
+    onMenuPress: () => void;
+    // The benchmark unloads the active model; this lets the caller load it again
+    onFinished: () => void;
+}) => {
+    const [runs, setRuns] = useState<BenchmarkRun[]>([]);
+    const [status, setStatus] = useState<string | null>(null);
+    const cancelledRef = useRef(false);
+
+    useEffect(() => {
+        loadBenchmarkRuns().then(setRuns);
+    }, []);
+
+    const start = async () => {
+        cancelledRef.current = false;
+        setStatus('Unloading the active model...');
+        try {
+            const { runs: saved } = await runBenchmark(installedModels, {
+                onStatus: setStatus,
+                isCancelled: () => cancelledRef.current
+            });
+            setRuns(saved);
+        } catch (error) {
+            console.error("Error running benchmark:", error);
+            Alert.alert("Benchmark Failed", error instanceof Error ? error.message : "The benchmark could not be completed.");
+        } finally {
+            setStatus(null);
+            onFinished();
+        }
+    };
+
+    const confirmStart = () => {
+        Alert.alert(
+            'Run Benchmark',
+            `This loads ${installedModels.length} installed ${installedModels.length === 1 ? 'model' : 'models'} one after another and can take several minutes. The current model is unloaded until it finishes.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Run', onPress: start }
+            ]
+        );
+    };
+
+    const exportRun = async (run: BenchmarkRun) => {
+        try {
+            await exportBenchmarkRun(run);
+        } catch (error) {
+            console.error("Error exporting benchmark:", error);
+            Alert.alert("Export Failed", error instanceof Error ? error.message : "The results could not be shared.");
+        }
+    };
+
+    const deleteRun = (run: BenchmarkRun) => {
+        Alert.alert('Delete Results', 'Delete this benchmark run?', [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Delete', style: 'destructive', onPress: () => deleteBenchmarkRun(run.id).then(setRuns) }
+        ]);
+    };
+
+    return (
+        <SafeAreaView style={{ flex: 1, backgroundColor: '#ffffff' }}>
+            <View style={{
+                flexDirection: 'row',
+                alignItems: 'center',
+                paddingHorizontal: 16,
+                paddingVertical: 12,
+                borderBottomWidth: 1,
+                borderBottomColor: '#e5e7eb'
+            }}>
+                <TouchableOpacity style={{ marginRight: 16 }} onPress={onMenuPress} disabled={status !== null}>
+                    <Ionicons name="menu" size={24} color={status !== null ? '#d1d5db' : '#6b7280'} />
+                </TouchableOpacity>
+                <Text style={{ fontSize: 18, fontWeight: '600', color: '#1f2937' }}>
+                    Benchmark
+                </Text>
+            </View>
+
+            <ScrollView style={{ flex: 1, padding: 16 }}>
+                <Text style={{ fontSize: 14, color: '#6b7280', marginBottom: 16 }}>
+                    Loads each installed model with its saved load options and runs the same prompts with a fixed seed,
+                    so results can be compared across models and devices.
+                </Text>
+
+                {status !== null ? (
+                    <View style={{ flexDirection: 'row', alignItems: 'center', backgroundColor: '#f0f9ff', borderRadius: 8, padding: 12, marginBottom: 16 }}>
+                        <ActivityIndicator size="small" color="#0ea5e9" style={{ marginRight: 8 }} />
+                        <Text style={{ flex: 1, fontSize: 14, color: '#0369a1' }}>{status}</Text>
+                        <TouchableOpacity onPress={() => { cancelledRef.current = true; setStatus('Finishing the current prompt...'); }}>
+                            <Text style={{ color: '#ef4444', fontSize: 14, fontWeight: '500' }}>Cancel</Text>
+                        </TouchableOpacity>
+                    </View>
+                ) : (
+                    <TouchableOpacity
+                        style={{
+                            alignItems: 'center',
+                            paddingVertical: 12,
+                            borderRadius: 8,
+                            marginBottom: 16,
+                            backgroundColor: installedModels.length > 0 ? '#6366f1' : '#e5e7eb'
+                        }}
+                        onPress={confirmStart}
+                        disabled={installedModels.length === 0}
+                    >
+                        <Text style={{ color: installedModels.length > 0 ? '#ffffff' : '#9ca3af', fontSize: 16, fontWeight: '600' }}>
+                            {installedModels.length > 0 ? `Benchmark ${installedModels.length} Installed Models` : 'No Installed Models'}
+                        </Text>
+                    </TouchableOpacity>
+                )}
+
+                {runs.map(run => (
+                    <View key={run.id} style={{ backgroundColor: '#f8fafc', borderWidth: 1, borderColor: '#e5e7eb', borderRadius: 12, padding: 16, marginBottom: 12 }}>
+                        <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginBottom: 8 }}>
+                            <View style={{ flex: 1 }}>
+                                <Text style={{ fontSize: 14, fontWeight: '600', color: '#1f2937' }}>
+                                    {new Date(run.startedAt).toLocaleString()}
+                                    {run.cancelled && <Text style={{ color: '#d97706' }}> • Cancelled</Text>}
+                                </Text>
+                                <Text style={{ fontSize: 12, color: '#6b7280' }}>
+                                    {[run.device.modelName, run.device.osName && `${run.device.osName} ${run.device.osVersion ?? ''}`.trim()].filter(Boolean).join(' • ')}
+                                </Text>
+                            </View>
+                            <TouchableOpacity style={{ padding: 4, marginLeft: 8 }} onPress={() => exportRun(run)}>
+                                <Ionicons name="share-outline" size={18} color="#6366f1" />
+                            </TouchableOpacity>
+                            <TouchableOpacity style={{ padding: 4, marginLeft: 8 }} onPress={() => deleteRun(run)} disabled={status !== null}>
+                                <Ionicons name="trash" size={16} color="#ef4444" />
+                            </TouchableOpacity>
+                        </View>
+                        {run.results.map(result => <ResultRow key={result.modelId} result={result} />)}
+                    </View>
+                ))}
+            </ScrollView>
+        </SafeAreaView>
+    );
+};
@@ -1,6 +1,35 @@
-import { sendMessage } from "@/llama/llama.config";
+import { buildUserContent, ChatMessage, sendMessage, startGeneration, stopGeneration } from "@/llama/llama.config";
+import { StreamState } from "@/llama/streamFilter";
+import { fitMessagesToContext, getContextBudget } from "@/llama/contextWindow";
+import {
+    GenerationSettings,
+    getDefaultGenerationSettings,
+    isSameSettings,
+    mergeGenerationSettings,
+    NUMERIC_FIELDS,
+    parseSettingsDraft,
+    SavedGenerationSettings,
+    SettingsDraft,
+    toSavedSettings,
+    toSettingsDraft
+} from "@/llama/generationSettings";
+import { ModelConfig } from "@/models/catalog";
+import MarkdownView from "@/components/MarkdownView";
+import ReasoningPanel from "@/components/ReasoningPanel";
+import MetricsFooter from "@/components/MetricsFooter";
+import ActionSheet, { SheetAction } from "@/components/ActionSheet";
+import SwipeSwitcher from "@/components/SwipeSwitcher";
+import { DEFAULT_IMAGE_RESOLUTION, prepareImage } from "@/llama/imagePreparation";
+import { LoadOptions } from "@/llama/loadOptions";
+import { recordPerformance } from "@/models/performanceHistory";
+import {
+    DEFAULT_IMAGE_MAX_TOKENS,
+    IMAGE_MAX_TOKENS_RANGE,
+    loadModelSettings,
+    saveModelSettings
+} from "@/models/modelSettings";
 import { LlamaContext } from "llama.rn";
-import React, { useCallback, useState, useRef, useEffect } from "react";
+import React, { useMemo, useState, useRef, useEffect } from "react";
 import { 
     ActivityIndicator, 
     Text, 
@@ -8,102 +37,197 @@ import {
     TextInput, 
     TouchableOpacity, 
     ScrollView,
+    FlatList,
+    NativeScrollEvent,
+    NativeSyntheticEvent,
     KeyboardAvoidingView,
     Platform,
     Dimensions,
     Animated,
     Modal,
     Alert,
-    Image
+    Image,
+    Pressable,
+    Switch
 } from "react-native";
 import { Ionicons } from '@expo/vector-icons';
 import { SafeAreaView } from "react-native-safe-area-context";
 import * as ImagePicker from 'expo-image-picker';
+import * as Clipboard from 'expo-clipboard';
+import {
+    Conversation,
+    createConversation,
+    DEFAULT_TITLE,
+    deriveTitle,
+    loadConversation,
+    Message,
+    updateConversation
+} from "@/storage/conversations";
+import { findExistingImages, persistConversationImages } from "@/storage/conversationImages";
+import {
+    appendMessage,
+    EMPTY_TREE,
+    getActivePath,
+    getSiblings,
+    MessageTree,
+    removeMessage,
+    replaceMessage,
+    selectBranch
+} from "@/storage/messageTree";
+import {
+    DEFAULT_PERSONA_ID,
+    fillPromptVariables,
+    getPersona,
+    loadPersonaLibrary,
+    PersonaLibrary
+} from "@/storage/personas";
+import { indexConversation } from "@/storage/searchIndex";
 
-const { width, height } = Dimensions.get('window');
-
-interface Message {
-    id: string;
-    text: string;
-    isUser: boolean;
-    timestamp: Date;
-    imageUri?: string;
-}
-
-interface ModelConfig {
-    id: string;
-    name: string;
-    description: string;
-    url: string;
-    sizeGB: number;
-    maxParams: number;
-    recommended: boolean;
-}
+const { width } = Dimensions.get('window');
+
+const MAX_IMAGES_PER_MESSAGE = 4;
+
+// How close to the end (in points) still counts as reading the latest output
+const FOLLOW_THRESHOLD = 48;
 
 // Simple ID generator to avoid uuid crypto issues
 let messageIdCounter = 0;
 const generateId = () => `msg_${Date.now()}_${++messageIdCounter}`;
 
-// Default system prompt
-const getSystemPrompt = (model: ModelConfig) => {
-    const basePrompt = `You are a helpful AI assistant.
-
-CRITICAL RULES:
-- Only respond to what the user actually said, not what you think they might want
-- NEVER mention platform features, tools, or getting started guides unless the user specifically asks about them
-
-You should be friendly and helpful, but never create problems or scenarios that don't exist. You are NOT a user asking questions - you are the assistant answering them.`;
-
-    // Add model-specific instructions
-    switch (model.id) {
-        case 'qwen3-1.7b':
-            return basePrompt.replace('You are a helpful AI assistant', 'You are Qwen, a helpful AI assistant');
-        case 'qwen2.5-vl-3b':
-            return basePrompt.replace('You are a helpful AI assistant', 'You are Qwen2.5-VL, a helpful AI assistant that can see and understand images');
-        case 'phi-3-mini':
-            return basePrompt.replace('You are a helpful AI assistant', 'You are Phi-3, a helpful AI assistant');
-        case 'llama3-1b':
-            return basePrompt.replace('You are a helpful AI assistant', 'You are Llama, a helpful AI assistant');
-        default:
-            return basePrompt;
-    }
-};
-
-const DEFAULT_SYSTEM_PROMPT = getSystemPrompt({ id: 'qwen3-1.7b' } as ModelConfig);
-
-export default ({ context, selectedModel, onMenuPress }: { context: LlamaContext; selectedModel: ModelConfig; onMenuPress?: () => void }) => {
-    const [messages, setMessages] = useState<Message[]>([]);
+export default ({
+    context,
+    selectedModel,
+    loadOptions,
+    conversationId,
+    onMenuPress,
+    onConversationSaved,
+    onManagePersonas,
+    focusMessageId,
+    onFocusHandled
+}: {
+    context: LlamaContext;
+    selectedModel: ModelConfig;
+    // What the context was created with; n_ctx may be below the model's maximum
+    loadOptions: LoadOptions;
+    conversationId: string;
+    onMenuPress?: () => void;
+    onConversationSaved?: (conversation: Conversation) => void;
+    onManagePersonas?: () => void;
+    // Scrolled to and briefly highlighted once the chat is restored
+    focusMessageId?: string;
+    onFocusHandled?: () => void;
+}) => {
+    const [tree, setTree] = useState<MessageTree>(EMPTY_TREE);
+    // The branch being shown; the prompt is built from this only
+    const messages = useMemo(() => getActivePath(tree), [tree]);
     const [inputText, setInputText] = useState("");
     const [isLoading, setIsLoading] = useState(false);
+    const [isStopping, setIsStopping] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [showSettings, setShowSettings] = useState(false);
-    const [systemPrompt, setSystemPrompt] = useState(getSystemPrompt(selectedModel));
-    const [selectedImage, setSelectedImage] = useState<string | null>(null);
-    const scrollViewRef = useRef<ScrollView>(null);
+    const [personaLibrary, setPersonaLibrary] = useState<PersonaLibrary>({ personas: [], userName: "" });
+    const [personaId, setPersonaId] = useState<string | undefined>(undefined);
+    // Persona that new chats with this model start with
+    const [modelPersonaId, setModelPersonaId] = useState<string | undefined>(undefined);
+    // Prompt of a chat saved before personas existed; used until another persona is picked
+    const [originalPrompt, setOriginalPrompt] = useState<string | null>(null);
+    // Persona chosen in the settings modal; null keeps the original prompt
+    const [personaDraft, setPersonaDraft] = useState<string | null>(null);
+    // Only set once the user customizes them, so catalog default changes still reach older chats
+    const [settings, setSettings] = useState<SavedGenerationSettings | undefined>(undefined);
+    const [settingsDraft, setSettingsDraft] = useState<SettingsDraft | null>(null);
+    const [thinkingEnabled, setThinkingEnabled] = useState(true);
+    const [isThinking, setIsThinking] = useState(false);
+    const [streamingId, setStreamingId] = useState<string | null>(null);
+    const [actionMessage, setActionMessage] = useState<Message | null>(null);
+    const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+    const [highlightedId, setHighlightedId] = useState<string | null>(null);
+    const [attachments, setAttachments] = useState<string[]>([]);
+    // Images are offered only once the loaded projector reports vision support
+    const [visionSupported, setVisionSupported] = useState(false);
+    const [imageMaxTokens, setImageMaxTokens] = useState(DEFAULT_IMAGE_MAX_TOKENS);
+    const [imageTokensDraft, setImageTokensDraft] = useState(String(DEFAULT_IMAGE_MAX_TOKENS));
+    const [isRestored, setIsRestored] = useState(false);
+    const defaultSettings = getDefaultGenerationSettings(selectedModel, getContextBudget(loadOptions.n_ctx).responseTokens);
+    const generationSettings = mergeGenerationSettings(defaultSettings, settings);
+    const contextBudget = getContextBudget(loadOptions.n_ctx, generationSettings.maxTokens);
+    const listRef = useRef<FlatList<Message>>(null);
+    // Follow streaming output only while the user is at the bottom of the transcript
+    const isFollowingRef = useRef(true);
+    const [showJumpToLatest, setShowJumpToLatest] = useState(false);
+    // Latest stream state, applied at most once per animation frame
+    const pendingStreamRef = useRef<StreamState | null>(null);
+    const streamFrameRef = useRef<number | null>(null);
     const fadeAnim = useRef(new Animated.Value(0)).current;
 
-    // Using in-memory storage for system prompt
-    const saveSystemPrompt = (prompt: string) => {
-        setSystemPrompt(prompt);
+    const activePersona = getPersona(personaLibrary, personaId ?? modelPersonaId);
+
+    // Variables are filled per message so {{date}} stays current in long-running chats
+    const buildSystemPrompt = () => fillPromptVariables(originalPrompt ?? activePersona.prompt, {
+        modelName: selectedModel.name,
+        userName: personaLibrary.userName
+    });
+
+    const openSettings = () => {
+        setSettingsDraft(toSettingsDraft(generationSettings));
+        setImageTokensDraft(String(imageMaxTokens));
+        setPersonaDraft(originalPrompt !== null ? null : activePersona.id);
+        setShowSettings(true);
+    };
+
+    // The model default is a per-model preference, so it is saved straight away like thinking mode
+    const setModelDefaultPersona = (id: string) => {
+        setModelPersonaId(id);
+        saveModelSettings(selectedModel.id, { personaId: id })
+            .catch(err => console.error("Error saving model settings:", err));
+    };
+
+    const saveSettings = () => {
+        if (settingsDraft) {
+            const { settings: parsed, errors } = parseSettingsDraft(settingsDraft);
+            if (!parsed) {
+                Alert.alert('Invalid Settings', errors.join('\n'));
+                return;
+            }
+            setSettings(isSameSettings(parsed, defaultSettings) ? undefined : toSavedSettings(parsed));
+        }
+        if (visionSupported) {
+            const [min, max] = IMAGE_MAX_TOKENS_RANGE;
+            const cap = Number(imageTokensDraft.trim());
+            if (!Number.isInteger(cap) || cap < min || cap > max) {
+                Alert.alert('Invalid Settings', `Image reply length must be a whole number between ${min} and ${max}`);
+                return;
+            }
+            if (cap !== imageMaxTokens) {
+                setImageMaxTokens(cap);
+                saveModelSettings(selectedModel.id, { imageMaxTokens: cap })
+                    .catch(err => console.error("Error saving model settings:", err));
+            }
+        }
+        // The persona is stored with the conversation on the next save
+        if (personaDraft !== null) {
+            setPersonaId(personaDraft);
+            setOriginalPrompt(null);
+        }
         setShowSettings(false);
     };
 
-    const resetSystemPrompt = () => {
-        Alert.alert(
-            'Reset System Prompt',
-            'Are you sure you want to reset to the default prompt?',
-            [
-                { text: 'Cancel', style: 'cancel' },
-                { 
-                    text: 'Reset', 
-                    style: 'destructive',
-                    onPress: () => saveSystemPrompt(getSystemPrompt(selectedModel))
-                }
-            ]
-        );
+    // Thinking is a per-model preference, so it is saved straight away rather than with the chat
+    const toggleThinking = (enabled: boolean) => {
+        setThinkingEnabled(enabled);
+        saveModelSettings(selectedModel.id, { thinking: enabled })
+            .catch(err => console.error("Error saving model settings:", err));
+    };
+
+    const updateDraft = (key: keyof GenerationSettings, value: string) => {
+        setSettingsDraft(current => current && { ...current, [key]: value });
+    };
+
+    const addAttachments = (uris: string[]) => {
+        setAttachments(prev => [...prev, ...uris.filter(uri => !prev.includes(uri))].slice(0, MAX_IMAGES_PER_MESSAGE));
     };
 
-    const pickImage = async () => {
+    const pickFromLibrary = async () => {
         // Request permissions
         const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
         if (status !== 'granted') {
@@ -113,31 +237,104 @@ export default ({ context, selectedModel, onMenuPress }: { context: LlamaContext
 
         // Launch image picker
         const result = await ImagePicker.launchImageLibraryAsync({
-            mediaTypes: ImagePicker.MediaTypeOptions.Images,
-            allowsEditing: true,
-            aspect: [4, 3],
+            mediaTypes: ['images'],
+            allowsMultipleSelection: true,
+            selectionLimit: MAX_IMAGES_PER_MESSAGE - attachments.length,
+            quality: 0.8,
+        });
+
+        if (!result.canceled) {
+            addAttachments(result.assets.map(asset => asset.uri));
+        }
+    };
+
+    const takePhoto = async () => {
+        const { status } = await ImagePicker.requestCameraPermissionsAsync();
+        if (status !== 'granted') {
+            Alert.alert('Permission needed', 'Please grant permission to use the camera');
+            return;
+        }
+
+        const result = await ImagePicker.launchCameraAsync({
+            mediaTypes: ['images'],
             quality: 0.8,
         });
 
         if (!result.canceled && result.assets[0]) {
-            setSelectedImage(result.assets[0].uri);
+            addAttachments([result.assets[0].uri]);
+        }
+    };
+
+    const showImageOptions = () => {
+        if (attachments.length >= MAX_IMAGES_PER_MESSAGE) {
+            Alert.alert('Image limit reached', `You can attach up to ${MAX_IMAGES_PER_MESSAGE} images per message.`);
+            return;
         }
+
+        Alert.alert('Add Image', undefined, [
+            { text: 'Take Photo', onPress: takePhoto },
+            { text: 'Choose from Library', onPress: pickFromLibrary },
+            { text: 'Cancel', style: 'cancel' }
+        ]);
     };
 
-    const removeImage = () => {
-        setSelectedImage(null);
+    const removeAttachment = (uri: string) => {
+        setAttachments(prev => prev.filter(item => item !== uri));
     };
 
-    // Welcome message
+    // Restore the saved conversation, or greet the user in a new one
     useEffect(() => {
-        const welcomeMessage: Message = {
-            id: generateId(),
-            text: `Welcome to ${selectedModel.name}! I'm here to help you with any questions or tasks. What would you like to work on today?`,
-            isUser: false,
-            timestamp: new Date()
+        const restore = async () => {
+            // Personas and model preferences come first so the chat never saves before its persona is known
+            await Promise.all([
+                loadPersonaLibrary()
+                    .then(setPersonaLibrary)
+                    .catch(err => console.error("Error loading personas:", err)),
+                loadModelSettings(selectedModel.id)
+                    .then(modelSettings => {
+                        setThinkingEnabled(modelSettings.thinking ?? true);
+                        setImageMaxTokens(modelSettings.imageMaxTokens ?? DEFAULT_IMAGE_MAX_TOKENS);
+                        setModelPersonaId(modelSettings.personaId);
+                    })
+                    .catch(err => console.error("Error loading model settings:", err))
+            ]);
+
+            try {
+                const saved = await loadConversation(conversationId);
+                if (saved && saved.messages.length > 0) {
+                    if (saved.personaId) {
+                        setPersonaId(saved.personaId);
+                    } else {
+                        setOriginalPrompt(saved.systemPrompt);
+                    }
+                    setSettings(saved.settings);
+                    setTree({ messages: saved.messages, activeLeafId: saved.activeLeafId });
+                    return;
+                }
+            } catch (err) {
+                console.error("Error loading conversation:", err);
+            }
+
+            const welcomeMessage: Message = {
+                id: generateId(),
+                text: `Welcome to ${selectedModel.name}! I'm here to help you with any questions or tasks. What would you like to work on today?`,
+                isUser: false,
+                timestamp: new Date()
+            };
+            setTree(appendMessage(EMPTY_TREE, welcomeMessage));
         };
-        setMessages([welcomeMessage]);
-        
+
+        restore().finally(() => setIsRestored(true));
+
+        if (selectedModel.vision) {
+            context.getMultimodalSupport()
+                .then(support => setVisionSupported(support.vision))
+                .catch(err => {
+                    console.log("ℹ️  Multimodal support unavailable:", err);
+                    setVisionSupported(false);
+                });
+        }
+
         // Fade in animation
         Animated.timing(fadeAnim, {
             toValue: 1,
@@ -146,69 +343,159 @@ export default ({ context, selectedModel, onMenuPress }: { context: LlamaContext
         }).start();
     }, []);
 
-    const createCompletion = async (message: string, imageUri?: string) => {
+    // Persist once a reply has finished so streaming tokens don't each trigger a write
+    useEffect(() => {
+        if (!isRestored || isLoading || !tree.messages.some(msg => msg.isUser)) {
+            return;
+        }
+
+        updateConversation(conversationId, current => {
+            const conversation = current ?? createConversation(conversationId, selectedModel.id, buildSystemPrompt());
+            return {
+                ...conversation,
+                title: conversation.title === DEFAULT_TITLE ? deriveTitle(messages) : conversation.title,
+                modelId: selectedModel.id,
+                systemPrompt: buildSystemPrompt(),
+                personaId: originalPrompt === null ? activePersona.id : undefined,
+                settings,
+                messages: tree.messages,
+                activeLeafId: tree.activeLeafId
+            };
+        })
+            .then(saved => {
+                onConversationSaved?.(saved);
+                // Only messages that are new or changed since the last save are re-indexed
+                return indexConversation(saved);
+            })
+            .catch(err => console.error("Error saving conversation:", err));
+    }, [tree, isLoading, isRestored, personaId, originalPrompt, settings]);
+
+    // Jump to a message chosen from search, switching to its branch first if another one is shown
+    useEffect(() => {
+        if (!isRestored || !focusMessageId) {
+            return;
+        }
+        if (!messages.some(msg => msg.id === focusMessageId)) {
+            if (tree.messages.some(msg => msg.id === focusMessageId)) {
+                setTree(prev => selectBranch(prev, focusMessageId));
+            } else {
+                onFocusHandled?.();
+            }
+            return;
+        }
+
+        isFollowingRef.current = false;
+        setHighlightedId(focusMessageId);
+        const index = messages.findIndex(msg => msg.id === focusMessageId);
+        requestAnimationFrame(() => listRef.current?.scrollToIndex({ index, viewPosition: 0.2 }));
+        onFocusHandled?.();
+    }, [focusMessageId, isRestored, messages]);
+
+    useEffect(() => {
+        if (!highlightedId) return;
+        const timer = setTimeout(() => setHighlightedId(null), 2000);
+        return () => clearTimeout(timer);
+    }, [highlightedId]);
+
+    // Convert chat state into role-structured messages that fit the model's context window
+    const buildChatMessages = async (history: Message[]): Promise<ChatMessage[]> => {
+        const resolution = selectedModel.imageResolution ?? DEFAULT_IMAGE_RESOLUTION;
+        const turns = await Promise.all(history
+            .filter(msg => msg.isUser || msg.text.trim())
+            .map(async (msg): Promise<ChatMessage> => {
+                if (!msg.isUser) {
+                    return { role: 'assistant', content: msg.text };
+                }
+                // Missing files are left out instead of failing the prompt; prepared copies are cached,
+                // so earlier turns' images aren't converted again
+                const available = msg.imageUris && await findExistingImages(msg.imageUris);
+                const imageUris = available && await Promise.all(available.map(uri => prepareImage(uri, resolution)));
+                return { role: 'user', content: buildUserContent(msg.text, imageUris) };
+            }));
+
+        const fitted = await fitMessagesToContext(context, buildSystemPrompt(), turns, contextBudget);
+        console.log(`📏 Prompt uses ~${fitted.promptTokens} of ${contextBudget.contextLength} tokens`);
+        return fitted.messages;
+    };
+
+    const updateMessage = (id: string, update: (message: Message) => Message) => {
+        setTree(prev => replaceMessage(prev, id, update));
+    };
+
+    // A regenerated reply can sit mid-conversation, so the streaming entry is found by id
+    const flushStreamUpdate = (streamingMessageId: string) => {
+        streamFrameRef.current = null;
+        const state = pendingStreamRef.current;
+        pendingStreamRef.current = null;
+        if (!state) return;
+
+        setIsThinking(state.thinking);
+        updateMessage(streamingMessageId, msg => ({ ...msg, text: state.content, reasoning: state.reasoning || undefined }));
+    };
+
+    const cancelStreamUpdate = () => {
+        if (streamFrameRef.current !== null) {
+            cancelAnimationFrame(streamFrameRef.current);
+            streamFrameRef.current = null;
+        }
+        pendingStreamRef.current = null;
+    };
+
+    // Stream a reply to `history`, the path ending in the user turn being answered. The reply is added
+    // below that turn, so answering it again starts another branch.
+    const createCompletion = async (history: Message[]) => {
         try {
+            // Clear an earlier Stop before the button shows, so one tapped while the prompt is prepared isn't lost
+            startGeneration(context);
             setIsLoading(true);
             setError(null);
             
             // For simple greetings, don't include conversation history to prevent hallucination
-            const isSimpleGreeting = /^(hey|hello|hi|sup|yo|greetings)$/i.test(message.trim());
+            const userMessage = history[history.length - 1];
+            const isSimpleGreeting = /^(hey|hello|hi|sup|yo|greetings)$/i.test(userMessage.text.trim());
             
-            let fullPrompt;
-            if (isSimpleGreeting) {
-                // For greetings, use only the system prompt and current message
-                fullPrompt = `${systemPrompt}\n\nUser: ${message}`;
-            } else {
-                // For other messages, include recent conversation history
-                const recentMessages = messages.slice(-4);
-                const conversationHistory = recentMessages
-                    .map(msg => `${msg.isUser ? 'User' : 'Assistant'}: ${msg.text}`)
-                    .join('\n');
-                fullPrompt = `${systemPrompt}\n\n${conversationHistory}\nUser: ${message}`;
-            }
+            // For other messages, include as much conversation history as the context allows
+            const chatMessages = await buildChatMessages(isSimpleGreeting ? [userMessage] : history);
             
-            // Create a streaming message that updates in real-time
-            const streamingMessageId = generateId();
-            const streamingMessage: Message = {
-                id: streamingMessageId,
+            const reply: Message = {
+                id: generateId(),
                 text: "",
                 isUser: false,
-                timestamp: new Date()
+                timestamp: new Date(),
+                parentId: userMessage.id
             };
+            setTree(prev => appendMessage(prev, reply));
+            setStreamingId(reply.id);
             
-            // Add the streaming message and get its index
-            setMessages(prev => [...prev, streamingMessage]);
-            
-            const response = await sendMessage(context, fullPrompt, (token: string) => {
-                // Update the streaming message in real-time
-                setMessages(prev => {
-                    const newMessages = [...prev];
-                    // Find the streaming message by ID
-                    const streamingIndex = newMessages.findIndex(msg => msg.id === streamingMessageId);
-                    if (streamingIndex !== -1) {
-                        newMessages[streamingIndex] = {
-                            ...newMessages[streamingIndex],
-                            text: newMessages[streamingIndex].text + token
-                        };
+            const response = await sendMessage(context, {
+                messages: chatMessages,
+                settings: { ...generationSettings, maxTokens: contextBudget.responseTokens },
+                chatTemplate: selectedModel.chatTemplate,
+                thinking: selectedModel.thinking ? thinkingEnabled : undefined,
+                imageMaxTokens: selectedModel.vision ? imageMaxTokens : undefined,
+                onUpdate: (state) => {
+                    pendingStreamRef.current = state;
+                    if (streamFrameRef.current === null) {
+                        streamFrameRef.current = requestAnimationFrame(() => flushStreamUpdate(reply.id));
                     }
-                    return newMessages;
-                });
-            }, selectedModel.maxParams, imageUri);
+                }
+            });
+            cancelStreamUpdate();
+            recordPerformance(selectedModel, loadOptions, response.metrics)
+                .catch(err => console.error("Error recording performance:", err));
             
-            if (response && response.trim()) {
-                // Update the streaming message with the final cleaned response
-                setMessages(prev => {
-                    const newMessages = [...prev];
-                    const streamingIndex = newMessages.findIndex(msg => msg.id === streamingMessageId);
-                    if (streamingIndex !== -1) {
-                        newMessages[streamingIndex] = {
-                            ...newMessages[streamingIndex],
-                            text: response
-                        };
-                    }
-                    return newMessages;
-                });
-                return response;
+            const interrupted = response.stopReason === 'stopped';
+            if (response.text.trim() || interrupted) {
+                // The final text matches what was streamed; this adds the reasoning time and stop state
+                updateMessage(reply.id, msg => ({
+                    ...msg,
+                    text: response.text,
+                    reasoning: response.reasoning,
+                    reasoningMs: response.reasoningMs,
+                    interrupted: interrupted || undefined,
+                    metrics: response.metrics
+                }));
+                return response.text;
             } else {
                 throw new Error("Empty response from AI");
             }
@@ -217,115 +504,150 @@ export default ({ context, selectedModel, onMenuPress }: { context: LlamaContext
             setError(err instanceof Error ? err.message : "Unknown error occurred");
             return null;
         } finally {
+            cancelStreamUpdate();
+            setStreamingId(null);
             setIsLoading(false);
+            setIsStopping(false);
+            setIsThinking(false);
+        }
+    };
+
+    // Answer the same turn again; the earlier answer stays as a sibling branch
+    const regenerateReply = (reply: Message) => {
+        const index = messages.findIndex(msg => msg.id === reply.id);
+        const userIndex = messages.slice(0, index).map(msg => msg.isUser).lastIndexOf(true);
+        if (userIndex === -1) {
+            setError("There is no message to answer before this reply.");
+            return;
+        }
+        createCompletion(messages.slice(0, userIndex + 1));
+    };
+
+    // Move to the previous or next alternative at the fork this message belongs to
+    const switchBranch = (message: Message, step: number) => {
+        const siblings = getSiblings(tree, message);
+        const target = siblings[siblings.indexOf(message) + step];
+        if (isLoading || !target) return;
+        setTree(prev => selectBranch(prev, target.id));
+    };
+
+    const handleStop = async () => {
+        if (!isLoading || isStopping) return;
+
+        setIsStopping(true);
+        try {
+            await stopGeneration(context);
+        } catch (err) {
+            console.error("Error stopping generation:", err);
+            setIsStopping(false);
         }
     };
 
     const handleSend = async () => {
-        if ((!inputText.trim() && !selectedImage) || isLoading) return;
+        if ((!inputText.trim() && attachments.length === 0) || isLoading) return;
+
+        // An edited message is sent as a sibling of the original, which keeps its replies on the old branch
+        const editIndex = editingMessageId ? messages.findIndex(msg => msg.id === editingMessageId) : -1;
+        const previous = editIndex === -1 ? messages : messages.slice(0, editIndex);
+        const text = inputText.trim();
+        // Clear the composer first so another tap while images are copied can't send twice
+        setInputText("");
+        setAttachments([]);
+        setEditingMessageId(null);
+        const imageUris = attachments.length > 0 ? await persistConversationImages(conversationId, attachments) : undefined;
 
         const userMessage: Message = {
             id: generateId(),
-            text: inputText.trim(),
+            text,
             isUser: true,
             timestamp: new Date(),
-            imageUri: selectedImage || undefined
+            imageUris,
+            parentId: previous[previous.length - 1]?.id
         };
+        const history = [...previous, userMessage];
 
-        setMessages(prev => [...prev, userMessage]);
-        setInputText("");
-        setSelectedImage(null);
+        setTree(prev => appendMessage(prev, userMessage));
+        scrollToBottom();
 
         // Create AI response (streaming is handled in createCompletion)
-        await createCompletion(userMessage.text, userMessage.imageUri);
+        await createCompletion(history);
     };
 
-    const renderMarkdownText = (text: string) => {
-        // Split text by markdown patterns
-        const parts = text.split(/(\*\*.*?\*\*|###.*?(?=\n|$))/g);
-        
-        return parts.map((part, index) => {
-            if (part.startsWith('**') && part.endsWith('**')) {
-                // Bold text
-                const boldText = part.slice(2, -2);
-                return (
-                    <Text key={index} style={{ 
-                        color: '#1f2937', 
-                        fontWeight: 'bold' 
-                    }}>
-                        {boldText}
-                    </Text>
-                );
-            } else if (part.startsWith('###')) {
-                // Header
-                const headerText = part.slice(3).trim();
-                return (
-                    <Text key={index} style={{ 
-                        color: '#1f2937', 
-                        fontWeight: 'bold',
-                        fontSize: 18,
-                        marginTop: 16,
-                        marginBottom: 8
-                    }}>
-                        {headerText}
-                    </Text>
-                );
-            } else if (part.trim() === '---') {
-                // Horizontal rule
-                return (
-                    <View key={index} style={{
-                        height: 1,
-                        backgroundColor: '#e5e7eb',
-                        marginVertical: 12
-                    }} />
-                );
-            } else if (part.trim() === '') {
-                // Empty line - add spacing
-                return <Text key={index} style={{ height: 8 }} />;
-            } else {
-                // Regular text
-                return (
-                    <Text key={index} style={{ color: '#1f2937' }}>
-                        {part}
-                    </Text>
-                );
+    const startEditing = (message: Message) => {
+        setEditingMessageId(message.id);
+        setInputText(message.text);
+        setAttachments(message.imageUris ?? []);
+    };
+
+    const cancelEditing = () => {
+        setEditingMessageId(null);
+        setInputText("");
+        setAttachments([]);
+    };
+
+    const deleteMessage = (message: Message) => {
+        Alert.alert('Delete Message', 'Delete this message from the conversation?', [
+            { text: 'Cancel', style: 'cancel' },
+            {
+                text: 'Delete',
+                style: 'destructive',
+                onPress: () => {
+                    setTree(prev => removeMessage(prev, message.id));
+                    if (editingMessageId === message.id) {
+                        cancelEditing();
+                    }
+                }
             }
-        });
+        ]);
     };
 
-    const renderTextWithThinking = (text: string) => {
-        // Check if <think> appears in the text
-        const thinkIndex = text.indexOf('<think>');
-        
-        if (thinkIndex === -1) {
-            // No thinking content, render all text with markdown
-            return renderMarkdownText(text);
+    const getMessageActions = (message: Message): SheetAction[] => {
+        const copy: SheetAction = {
+            label: 'Copy',
+            icon: 'copy-outline',
+            onPress: () => Clipboard.setStringAsync(message.text)
+        };
+        // Anything that changes the conversation waits until the current reply is done
+        if (isLoading) {
+            return [copy];
         }
-        
-        // Split text into before-thinking and thinking parts
-        const beforeThinking = text.substring(0, thinkIndex);
-        const thinkingAndAfter = text.substring(thinkIndex);
-        
-        // Remove the <think> tag from the thinking content
-        const thinkingContent = thinkingAndAfter.replace(/<\/?think>/g, '');
-        
-        return (
-            <>
-                {beforeThinking && renderMarkdownText(beforeThinking)}
-                <Text style={{ color: '#9ca3af', fontStyle: 'italic' }}>
-                    {thinkingContent}
-                </Text>
-            </>
-        );
+        return [
+            copy,
+            message.isUser
+                ? { label: 'Edit & Resend', icon: 'create-outline', onPress: () => startEditing(message) }
+                : { label: 'Regenerate', icon: 'refresh', onPress: () => regenerateReply(message) },
+            { label: 'Delete', icon: 'trash-outline', destructive: true, onPress: () => deleteMessage(message) }
+        ];
     };
 
-    const scrollToBottom = () => {
-        scrollViewRef.current?.scrollToEnd({ animated: true });
+    const renderMessageBody = (message: Message, streaming: boolean) => (
+        <>
+            {message.reasoning && (
+                <ReasoningPanel reasoning={message.reasoning} durationMs={message.reasoningMs} active={streaming && isThinking} />
+            )}
+            {message.text !== '' && <MarkdownView text={message.text} streaming={streaming} />}
+        </>
+    );
+
+    const scrollToBottom = (animated = true) => {
+        isFollowingRef.current = true;
+        setShowJumpToLatest(false);
+        listRef.current?.scrollToEnd({ animated });
     };
 
-    useEffect(() => {
-        scrollToBottom();
-    }, [messages]);
+    const handleScroll = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+        const { contentOffset, contentSize, layoutMeasurement } = event.nativeEvent;
+        const atBottom = contentSize.height - (contentOffset.y + layoutMeasurement.height) < FOLLOW_THRESHOLD;
+        isFollowingRef.current = atBottom;
+        setShowJumpToLatest(!atBottom);
+    };
+
+    // New content only pulls the list down if the user hasn't scrolled up to read
+    const handleContentSizeChange = () => {
+        if (isFollowingRef.current) {
+            listRef.current?.scrollToEnd({ animated: !isLoading });
+        }
+    };
 
     const renderUserMessage = (message: Message) => (
         <View key={message.id} style={{
@@ -334,8 +656,9 @@ export default ({ context, selectedModel, onMenuPress }: { context: LlamaContext
             marginHorizontal: 16,
             maxWidth: width * 0.75
         }}>
-            <View style={{
-                backgroundColor: '#6366f1',
+            <SwipeSwitcher onPrevious={() => switchBranch(message, -1)} onNext={() => switchBranch(message, 1)}>
+            <Pressable onLongPress={() => setActionMessage(message)} delayLongPress={350} style={{
+                backgroundColor: message.id === highlightedId ? '#4338ca' : '#6366f1',
                 paddingHorizontal: 16,
                 paddingVertical: 12,
                 borderRadius: 20,
@@ -346,17 +669,23 @@ export default ({ context, selectedModel, onMenuPress }: { context: LlamaContext
                 shadowRadius: 4,
                 elevation: 2
             }}>
-                {message.imageUri && (
-                    <Image 
-                        source={{ uri: message.imageUri }}
-                        style={{
-                            width: 200,
-                            height: 150,
-                            borderRadius: 12,
-                            marginBottom: 8
-                        }}
-                        resizeMode="cover"
-                    />
+                {message.imageUris && (
+                    <View style={{ flexDirection: 'row', flexWrap: 'wrap', marginBottom: 4 }}>
+                        {message.imageUris.map(uri => (
+                            <Image 
+                                key={uri}
+                                source={{ uri }}
+                                style={{
+                                    width: message.imageUris!.length > 1 ? 96 : 200,
+                                    height: message.imageUris!.length > 1 ? 96 : 150,
+                                    borderRadius: 12,
+                                    marginRight: 4,
+                                    marginBottom: 4
+                                }}
+                                resizeMode="cover"
+                            />
+                        ))}
+                    </View>
                 )}
                 {message.text && (
                     <Text style={{
@@ -367,16 +696,17 @@ export default ({ context, selectedModel, onMenuPress }: { context: LlamaContext
                         {message.text}
                     </Text>
                 )}
+            </Pressable>
+            </SwipeSwitcher>
+            <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'flex-end', marginTop: 4, marginRight: 4 }}>
+                {renderBranchSwitcher(message)}
+                <Text style={{
+                    fontSize: 12,
+                    color: '#9ca3af'
+                }}>
+                    {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </Text>
             </View>
-            <Text style={{
-                fontSize: 12,
-                color: '#9ca3af',
-                textAlign: 'right',
-                marginTop: 4,
-                marginRight: 4
-            }}>
-                {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-            </Text>
         </View>
     );
 
@@ -390,8 +720,9 @@ export default ({ context, selectedModel, onMenuPress }: { context: LlamaContext
                 maxWidth: width * 0.85
             }}
         >
-            <View style={{
-                backgroundColor: '#f8fafc',
+            <SwipeSwitcher onPrevious={() => switchBranch(message, -1)} onNext={() => switchBranch(message, 1)}>
+            <Pressable onLongPress={() => setActionMessage(message)} delayLongPress={350} style={{
+                backgroundColor: message.id === highlightedId ? '#fef9c3' : '#f8fafc',
                 padding: 16,
                 borderRadius: 16,
                 borderWidth: 1,
@@ -426,24 +757,43 @@ export default ({ context, selectedModel, onMenuPress }: { context: LlamaContext
                         Qwen AI
                     </Text>
                 </View>
-                <Text style={{
-                    fontSize: 16,
-                    lineHeight: 24,
-                    color: '#1f2937'
-                }}>
-                    {renderTextWithThinking(message.text)}
-                </Text>
-                <Text style={{
-                    fontSize: 12,
-                    color: '#9ca3af',
-                    marginTop: 8
-                }}>
-                    {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                </Text>
-            </View>
+                {renderMessageBody(message, message.id === streamingId)}
+                <MetricsFooter
+                    label={message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) + (message.interrupted ? ' • Stopped' : '')}
+                    metrics={message.metrics}
+                />
+                <View style={{ alignSelf: 'flex-end' }}>
+                    {renderBranchSwitcher(message)}
+                </View>
+            </Pressable>
+            </SwipeSwitcher>
         </Animated.View>
     );
 
+    // "< 2/3 >" wherever a message was edited or regenerated; swiping the bubble does the same
+    const renderBranchSwitcher = (message: Message) => {
+        const siblings = getSiblings(tree, message);
+        if (siblings.length < 2) {
+            return null;
+        }
+        const index = siblings.indexOf(message);
+        const canGoBack = !isLoading && index > 0;
+        const canGoForward = !isLoading && index < siblings.length - 1;
+        return (
+            <View style={{ flexDirection: 'row', alignItems: 'center', marginRight: 4 }}>
+                <TouchableOpacity style={{ padding: 4 }} onPress={() => switchBranch(message, -1)} disabled={!canGoBack}>
+                    <Ionicons name="chevron-back" size={16} color={canGoBack ? '#6366f1' : '#d1d5db'} />
+                </TouchableOpacity>
+                <Text style={{ fontSize: 12, color: '#6b7280', fontVariant: ['tabular-nums'] }}>
+                    {index + 1}/{siblings.length}
+                </Text>
+                <TouchableOpacity style={{ padding: 4 }} onPress={() => switchBranch(message, 1)} disabled={!canGoForward}>
+                    <Ionicons name="chevron-forward" size={16} color={canGoForward ? '#6366f1' : '#d1d5db'} />
+                </TouchableOpacity>
+            </View>
+        );
+    };
+
     return (
         <KeyboardAvoidingView 
             style={{ flex: 1 }} 
@@ -507,7 +857,7 @@ export default ({ context, selectedModel, onMenuPress }: { context: LlamaContext
                         justifyContent: 'center',
                         alignItems: 'center'
                     }}
-                    onPress={() => setShowSettings(true)}
+                    onPress={() => openSettings()}
                 >
                     <Ionicons name="ellipsis-horizontal" size={18} color="#6b7280" />
                 </TouchableOpacity>
@@ -515,55 +865,95 @@ export default ({ context, selectedModel, onMenuPress }: { context: LlamaContext
                 </SafeAreaView>
 
             {/* Messages */}
-            <ScrollView
-                ref={scrollViewRef}
-                style={{ flex: 1, backgroundColor: '#ffffff' }}
-                contentContainerStyle={{ paddingVertical: 8 }}
-                showsVerticalScrollIndicator={false}
-            >
-                {messages.map(message => 
-                    message.isUser ? renderUserMessage(message) : renderAIMessage(message)
-                )}
-                
-                {isLoading && (
-                    <View style={{
-                        marginVertical: 8,
-                        marginHorizontal: 16,
-                        maxWidth: width * 0.85
-                    }}>
+            <View style={{ flex: 1 }}>
+                <FlatList
+                    ref={listRef}
+                    data={messages}
+                    keyExtractor={message => message.id}
+                    renderItem={({ item }) => item.isUser ? renderUserMessage(item) : renderAIMessage(item)}
+                    extraData={`${isLoading}:${isThinking}:${streamingId}:${highlightedId}`}
+                    style={{ flex: 1, backgroundColor: '#ffffff' }}
+                    contentContainerStyle={{ paddingVertical: 8 }}
+                    showsVerticalScrollIndicator={false}
+                    onScroll={handleScroll}
+                    scrollEventThrottle={100}
+                    onContentSizeChange={handleContentSizeChange}
+                    // Rows beyond the rendered window have no measured position yet; get close, then retry
+                    onScrollToIndexFailed={({ index, averageItemLength }) => {
+                        listRef.current?.scrollToOffset({ offset: averageItemLength * index, animated: false });
+                        setTimeout(() => listRef.current?.scrollToIndex({ index, viewPosition: 0.2 }), 100);
+                    }}
+                    initialNumToRender={12}
+                    windowSize={9}
+                    ListFooterComponent={isLoading ? (
                         <View style={{
-                            backgroundColor: '#f8fafc',
-                            padding: 16,
-                            borderRadius: 16,
-                            borderWidth: 1,
-                            borderColor: '#e5e7eb',
-                            flexDirection: 'row',
-                            alignItems: 'center'
+                            marginVertical: 8,
+                            marginHorizontal: 16,
+                            maxWidth: width * 0.85
                         }}>
                             <View style={{
-                                width: 24,
-                                height: 24,
-                                borderRadius: 12,
-                                backgroundColor: '#6366f1',
-                                justifyContent: 'center',
-                                alignItems: 'center',
-                                marginRight: 8
+                                backgroundColor: '#f8fafc',
+                                padding: 16,
+                                borderRadius: 16,
+                                borderWidth: 1,
+                                borderColor: '#e5e7eb',
+                                flexDirection: 'row',
+                                alignItems: 'center'
                             }}>
-                                <Ionicons name="sparkles" size={14} color="#ffffff" />
+                                <View style={{
+                                    width: 24,
+                                    height: 24,
+                                    borderRadius: 12,
+                                    backgroundColor: '#6366f1',
+                                    justifyContent: 'center',
+                                    alignItems: 'center',
+                                    marginRight: 8
+                                }}>
+                                    <Ionicons name="sparkles" size={14} color="#ffffff" />
+                                </View>
+                                <Text style={{
+                                    fontSize: 14,
+                                    fontWeight: '600',
+                                    color: '#374151',
+                                    marginRight: 8
+                                }}>
+                                    Qwen AI
+                                </Text>
+                                <ActivityIndicator size="small" color="#6366f1" />
                             </View>
-                            <Text style={{
-                                fontSize: 14,
-                                fontWeight: '600',
-                                color: '#374151',
-                                marginRight: 8
-                            }}>
-                                Qwen AI
-                            </Text>
-                            <ActivityIndicator size="small" color="#6366f1" />
                         </View>
-                    </View>
+                    ) : null}
+                />
+
+                {showJumpToLatest && (
+                    <TouchableOpacity
+                        onPress={() => scrollToBottom()}
+                        style={{
+                            position: 'absolute',
+                            right: 16,
+                            bottom: 12,
+                            flexDirection: 'row',
+                            alignItems: 'center',
+                            backgroundColor: '#ffffff',
+                            paddingHorizontal: 12,
+                            paddingVertical: 8,
+                            borderRadius: 18,
+                            borderWidth: 1,
+                            borderColor: '#e5e7eb',
+                            shadowColor: '#000',
+                            shadowOffset: { width: 0, height: 2 },
+                            shadowOpacity: 0.1,
+                            shadowRadius: 4,
+                            elevation: 3
+                        }}
+                    >
+                        <Ionicons name="arrow-down" size={16} color="#6366f1" />
+                        <Text style={{ color: '#6366f1', fontSize: 13, fontWeight: '600', marginLeft: 4 }}>
+                            Jump to latest
+                        </Text>
+                    </TouchableOpacity>
                 )}
-            </ScrollView>
+            </View>
 
             {/* Error Message */}
             {error && (
@@ -596,39 +986,56 @@ export default ({ context, selectedModel, onMenuPress }: { context: LlamaContext
                 paddingHorizontal: 16,
                 paddingVertical: 12
             }}>
-                {/* Selected Image Preview */}
-                {selectedImage && (
-                    <View style={{
-                        marginBottom: 12,
-                        position: 'relative'
-                    }}>
-                        <Image 
-                            source={{ uri: selectedImage }}
-                            style={{
-                                width: 120,
-                                height: 90,
-                                borderRadius: 8
-                            }}
-                            resizeMode="cover"
-                        />
-                        <TouchableOpacity
-                            onPress={removeImage}
-                            style={{
-                                position: 'absolute',
-                                top: -8,
-                                right: -8,
-                                width: 24,
-                                height: 24,
-                                borderRadius: 12,
-                                backgroundColor: '#ef4444',
-                                justifyContent: 'center',
-                                alignItems: 'center'
-                            }}
-                        >
-                            <Ionicons name="close" size={16} color="#ffffff" />
+                {editingMessageId && (
+                    <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 8 }}>
+                        <Ionicons name="create-outline" size={14} color="#6366f1" style={{ marginRight: 6 }} />
+                        <Text style={{ flex: 1, fontSize: 13, color: '#6366f1' }}>
+                            Editing message • sends as a new branch
+                        </Text>
+                        <TouchableOpacity onPress={cancelEditing} style={{ padding: 4 }}>
+                            <Ionicons name="close" size={16} color="#6b7280" />
                         </TouchableOpacity>
                     </View>
                 )}
+                {/* Attachment Previews */}
+                {attachments.length > 0 && (
+                    <ScrollView
+                        horizontal
+                        showsHorizontalScrollIndicator={false}
+                        style={{ marginBottom: 12 }}
+                        contentContainerStyle={{ paddingTop: 8, paddingRight: 8 }}
+                    >
+                        {attachments.map(uri => (
+                            <View key={uri} style={{ marginRight: 12, position: 'relative' }}>
+                                <Image 
+                                    source={{ uri }}
+                                    style={{
+                                        width: 90,
+                                        height: 90,
+                                        borderRadius: 8
+                                    }}
+                                    resizeMode="cover"
+                                />
+                                <TouchableOpacity
+                                    onPress={() => removeAttachment(uri)}
+                                    style={{
+                                        position: 'absolute',
+                                        top: -8,
+                                        right: -8,
+                                        width: 24,
+                                        height: 24,
+                                        borderRadius: 12,
+                                        backgroundColor: '#ef4444',
+                                        justifyContent: 'center',
+                                        alignItems: 'center'
+                                    }}
+                                >
+                                    <Ionicons name="close" size={16} color="#ffffff" />
+                                </TouchableOpacity>
+                            </View>
+                        ))}
+                    </ScrollView>
+                )}
                 
                 <View style={{
                     flexDirection: 'row',
@@ -640,10 +1047,10 @@ export default ({ context, selectedModel, onMenuPress }: { context: LlamaContext
                     paddingHorizontal: 16,
                     paddingVertical: 8
                 }}>
-                    {/* Image Picker Button - Only show for Qwen2.5-VL */}
-                    {selectedModel.id === 'qwen2.5-vl-3b' && (
+                    {/* Image Button - only when the loaded projector supports vision */}
+                    {visionSupported && (
                         <TouchableOpacity
-                            onPress={pickImage}
+                            onPress={showImageOptions}
                             style={{
                                 width: 36,
                                 height: 36,
@@ -666,7 +1073,7 @@ export default ({ context, selectedModel, onMenuPress }: { context: LlamaContext
                             maxHeight: 100,
                             paddingVertical: 8
                         }}
-                        placeholder={selectedModel.id === 'qwen2.5-vl-3b' ? "Type a message or add an image..." : "Type a message..."}
+                        placeholder={visionSupported ? "Type a message or add images..." : "Type a message..."}
                         placeholderTextColor="#9ca3af"
                         value={inputText}
                         onChangeText={setInputText}
@@ -674,28 +1081,57 @@ export default ({ context, selectedModel, onMenuPress }: { context: LlamaContext
                         onSubmitEditing={handleSend}
                         blurOnSubmit={false}
                     />
-                    <TouchableOpacity
-                        onPress={handleSend}
-                        disabled={(!inputText.trim() && !selectedImage) || isLoading}
-                        style={{
-                            width: 36,
-                            height: 36,
-                            borderRadius: 18,
-                            backgroundColor: ((inputText.trim() || selectedImage) && !isLoading) ? '#6366f1' : '#e5e7eb',
-                            justifyContent: 'center',
-                            alignItems: 'center',
-                            marginLeft: 8
-                        }}
-                    >
-                        <Ionicons 
-                            name="send" 
-                            size={18} 
-                            color={((inputText.trim() || selectedImage) && !isLoading) ? '#ffffff' : '#9ca3af'} 
-                        />
-                    </TouchableOpacity>
+                    {isLoading ? (
+                        <TouchableOpacity
+                            onPress={handleStop}
+                            disabled={isStopping}
+                            style={{
+                                width: 36,
+                                height: 36,
+                                borderRadius: 18,
+                                backgroundColor: isStopping ? '#e5e7eb' : '#ef4444',
+                                justifyContent: 'center',
+                                alignItems: 'center',
+                                marginLeft: 8
+                            }}
+                        >
+                            <Ionicons 
+                                name="stop" 
+                                size={16} 
+                                color={isStopping ? '#9ca3af' : '#ffffff'} 
+                            />
+                        </TouchableOpacity>
+                    ) : (
+                        <TouchableOpacity
+                            onPress={handleSend}
+                            disabled={!inputText.trim() && attachments.length === 0}
+                            style={{
+                                width: 36,
+                                height: 36,
+                                borderRadius: 18,
+                                backgroundColor: (inputText.trim() || attachments.length > 0) ? '#6366f1' : '#e5e7eb',
+                                justifyContent: 'center',
+                                alignItems: 'center',
+                                marginLeft: 8
+                            }}
+                        >
+                            <Ionicons 
+                                name="send" 
+                                size={18} 
+                                color={(inputText.trim() || attachments.length > 0) ? '#ffffff' : '#9ca3af'} 
+                            />
+                        </TouchableOpacity>
+                    )}
                 </View>
             </View>
 
+            <ActionSheet
+                visible={actionMessage !== null}
+                title={actionMessage?.text || undefined}
+                actions={actionMessage ? getMessageActions(actionMessage) : []}
+                onClose={() => setActionMessage(null)}
+            />
+
             {/* Settings Modal */}
             <Modal
                 visible={showSettings}
@@ -718,7 +1154,7 @@ export default ({ context, selectedModel, onMenuPress }: { context: LlamaContext
                             fontWeight: '600',
                             color: '#1f2937'
                         }}>
-                            System Prompt Settings
+                            Chat Settings
                         </Text>
                         <TouchableOpacity
                             onPress={() => setShowSettings(false)}
@@ -737,69 +1173,250 @@ export default ({ context, selectedModel, onMenuPress }: { context: LlamaContext
 
                     {/* Settings Content */}
                     <ScrollView style={{ flex: 1, padding: 16 }}>
-                        <Text style={{
-                            fontSize: 16,
-                            fontWeight: '600',
-                            color: '#1f2937',
+                        <View style={{
+                            flexDirection: 'row',
+                            alignItems: 'center',
+                            justifyContent: 'space-between',
                             marginBottom: 8
                         }}>
-                            Customize AI Behavior
-                        </Text>
+                            <Text style={{
+                                fontSize: 16,
+                                fontWeight: '600',
+                                color: '#1f2937'
+                            }}>
+                                Persona
+                            </Text>
+                            {onManagePersonas && (
+                                <TouchableOpacity
+                                    onPress={() => {
+                                        setShowSettings(false);
+                                        onManagePersonas();
+                                    }}
+                                >
+                                    <Text style={{ color: '#6366f1', fontSize: 14, fontWeight: '500' }}>
+                                        Manage Personas
+                                    </Text>
+                                </TouchableOpacity>
+                            )}
+                        </View>
                         <Text style={{
                             fontSize: 14,
                             color: '#6b7280',
-                            marginBottom: 16,
+                            marginBottom: 12,
                             lineHeight: 20
                         }}>
-                            Modify the system prompt to change how the AI responds. This will affect all future conversations.
+                            The persona's system prompt shapes how the AI responds. The choice applies to this conversation only.
                         </Text>
 
-                        <TextInput
-                            style={{
-                                borderWidth: 1,
-                                borderColor: '#e5e7eb',
-                                borderRadius: 12,
-                                padding: 16,
-                                fontSize: 14,
-                                color: '#1f2937',
-                                backgroundColor: '#f9fafb',
-                                minHeight: 200,
-                                textAlignVertical: 'top'
-                            }}
-                            placeholder="Enter your custom system prompt..."
-                            placeholderTextColor="#9ca3af"
-                            value={systemPrompt}
-                            onChangeText={setSystemPrompt}
-                            multiline
-                            textAlignVertical="top"
-                        />
+                        {originalPrompt !== null && (
+                            <TouchableOpacity
+                                onPress={() => setPersonaDraft(null)}
+                                style={{
+                                    borderWidth: 1,
+                                    borderColor: personaDraft === null ? '#6366f1' : '#e5e7eb',
+                                    borderRadius: 12,
+                                    padding: 12,
+                                    marginBottom: 8
+                                }}
+                            >
+                                <Text style={{ fontSize: 14, fontWeight: '600', color: '#1f2937' }}>
+                                    Original Prompt
+                                </Text>
+                                <Text numberOfLines={2} style={{ fontSize: 13, color: '#6b7280', marginTop: 2 }}>
+                                    {originalPrompt}
+                                </Text>
+                            </TouchableOpacity>
+                        )}
+
+                        {personaLibrary.personas.map(persona => {
+                            const isModelDefault = persona.id === (modelPersonaId ?? DEFAULT_PERSONA_ID);
+                            return (
+                                <TouchableOpacity
+                                    key={persona.id}
+                                    onPress={() => setPersonaDraft(persona.id)}
+                                    style={{
+                                        borderWidth: 1,
+                                        borderColor: personaDraft === persona.id ? '#6366f1' : '#e5e7eb',
+                                        borderRadius: 12,
+                                        padding: 12,
+                                        marginBottom: 8
+                                    }}
+                                >
+                                    <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+                                        <Text style={{ flex: 1, fontSize: 14, fontWeight: '600', color: '#1f2937' }}>
+                                            {persona.name}
+                                        </Text>
+                                        {isModelDefault ? (
+                                            <Text style={{ fontSize: 12, color: '#6b7280' }}>
+                                                Default for {selectedModel.name}
+                                            </Text>
+                                        ) : personaDraft === persona.id && (
+                                            <TouchableOpacity onPress={() => setModelDefaultPersona(persona.id)}>
+                                                <Text style={{ fontSize: 12, color: '#6366f1', fontWeight: '500' }}>
+                                                    Make Default for {selectedModel.name}
+                                                </Text>
+                                            </TouchableOpacity>
+                                        )}
+                                    </View>
+                                    <Text numberOfLines={2} style={{ fontSize: 13, color: '#6b7280', marginTop: 2 }}>
+                                        {fillPromptVariables(persona.prompt, { modelName: selectedModel.name, userName: personaLibrary.userName })}
+                                    </Text>
+                                </TouchableOpacity>
+                            );
+                        })}
+
+                        {selectedModel.thinking && (
+                            <View style={{
+                                flexDirection: 'row',
+                                alignItems: 'center',
+                                justifyContent: 'space-between',
+                                marginTop: 24
+                            }}>
+                                <View style={{ flex: 1, marginRight: 12 }}>
+                                    <Text style={{ fontSize: 16, fontWeight: '600', color: '#1f2937' }}>
+                                        Thinking Mode
+                                    </Text>
+                                    <Text style={{ fontSize: 13, color: '#6b7280', marginTop: 2 }}>
+                                        Let {selectedModel.name} reason before answering. Slower, but better on hard questions. Applies to every chat with this model.
+                                    </Text>
+                                </View>
+                                <Switch
+                                    value={thinkingEnabled}
+                                    onValueChange={toggleThinking}
+                                    trackColor={{ true: '#6366f1' }}
+                                />
+                            </View>
+                        )}
 
                         <View style={{
                             flexDirection: 'row',
+                            alignItems: 'center',
                             justifyContent: 'space-between',
-                            marginTop: 16
+                            marginTop: 24,
+                            marginBottom: 8
                         }}>
-                            <TouchableOpacity
-                                onPress={resetSystemPrompt}
+                            <Text style={{
+                                fontSize: 16,
+                                fontWeight: '600',
+                                color: '#1f2937'
+                            }}>
+                                Generation
+                            </Text>
+                            <TouchableOpacity onPress={() => setSettingsDraft(toSettingsDraft(defaultSettings))}>
+                                <Text style={{ color: '#6366f1', fontSize: 14, fontWeight: '500' }}>
+                                    Use {selectedModel.name} Defaults
+                                </Text>
+                            </TouchableOpacity>
+                        </View>
+
+                        {settingsDraft && NUMERIC_FIELDS.map(field => (
+                            <View
+                                key={field.key}
                                 style={{
-                                    paddingHorizontal: 16,
-                                    paddingVertical: 8,
-                                    borderRadius: 8,
-                                    borderWidth: 1,
-                                    borderColor: '#ef4444'
+                                    flexDirection: 'row',
+                                    alignItems: 'center',
+                                    justifyContent: 'space-between',
+                                    paddingVertical: 6
                                 }}
                             >
-                                <Text style={{
-                                    color: '#ef4444',
-                                    fontSize: 14,
-                                    fontWeight: '500'
-                                }}>
-                                    Reset to Default
+                                <Text style={{ fontSize: 14, color: '#374151' }}>
+                                    {field.label}
+                                    <Text style={{ color: '#9ca3af' }}> ({field.min}–{field.max})</Text>
                                 </Text>
-                            </TouchableOpacity>
+                                <TextInput
+                                    style={{
+                                        width: 110,
+                                        borderWidth: 1,
+                                        borderColor: '#e5e7eb',
+                                        borderRadius: 8,
+                                        paddingHorizontal: 10,
+                                        paddingVertical: 6,
+                                        fontSize: 14,
+                                        color: '#1f2937',
+                                        backgroundColor: '#f9fafb',
+                                        textAlign: 'right'
+                                    }}
+                                    placeholder={field.key === 'seed' ? 'Random' : 'Off'}
+                                    placeholderTextColor="#9ca3af"
+                                    value={settingsDraft[field.key]}
+                                    onChangeText={value => updateDraft(field.key, value)}
+                                    keyboardType={field.integer ? 'number-pad' : 'decimal-pad'}
+                                />
+                            </View>
+                        ))}
 
+                        {visionSupported && (
+                            <View style={{
+                                flexDirection: 'row',
+                                alignItems: 'center',
+                                justifyContent: 'space-between',
+                                paddingVertical: 6
+                            }}>
+                                <View style={{ flex: 1, marginRight: 12 }}>
+                                    <Text style={{ fontSize: 14, color: '#374151' }}>
+                                        Image Reply Tokens
+                                        <Text style={{ color: '#9ca3af' }}> ({IMAGE_MAX_TOKENS_RANGE[0]}–{IMAGE_MAX_TOKENS_RANGE[1]})</Text>
+                                    </Text>
+                                    <Text style={{ fontSize: 12, color: '#9ca3af', marginTop: 2 }}>
+                                        Caps replies to messages with images. Applies to every chat with this model.
+                                    </Text>
+                                </View>
+                                <TextInput
+                                    style={{
+                                        width: 110,
+                                        borderWidth: 1,
+                                        borderColor: '#e5e7eb',
+                                        borderRadius: 8,
+                                        paddingHorizontal: 10,
+                                        paddingVertical: 6,
+                                        fontSize: 14,
+                                        color: '#1f2937',
+                                        backgroundColor: '#f9fafb',
+                                        textAlign: 'right'
+                                    }}
+                                    value={imageTokensDraft}
+                                    onChangeText={setImageTokensDraft}
+                                    keyboardType="number-pad"
+                                />
+                            </View>
+                        )}
+
+                        {settingsDraft && (
+                            <>
+                                <Text style={{ fontSize: 14, color: '#374151', marginTop: 12, marginBottom: 6 }}>
+                                    Stop Words (one per line)
+                                </Text>
+                                <TextInput
+                                    style={{
+                                        borderWidth: 1,
+                                        borderColor: '#e5e7eb',
+                                        borderRadius: 12,
+                                        padding: 12,
+                                        fontSize: 14,
+                                        color: '#1f2937',
+                                        backgroundColor: '#f9fafb',
+                                        minHeight: 80,
+                                        textAlignVertical: 'top'
+                                    }}
+                                    placeholder="Built-in end-of-turn markers are always used"
+                                    placeholderTextColor="#9ca3af"
+                                    value={settingsDraft.stopWords}
+                                    onChangeText={value => updateDraft('stopWords', value)}
+                                    autoCapitalize="none"
+                                    autoCorrect={false}
+                                    multiline
+                                />
+                            </>
+                        )}
+
+                        <View style={{
+                            flexDirection: 'row',
+                            justifyContent: 'flex-end',
+                            marginTop: 16,
+                            marginBottom: 32
+                        }}>
                             <TouchableOpacity
-                                onPress={() => saveSystemPrompt(systemPrompt)}
+                                onPress={saveSettings}
                                 style={{
                                     paddingHorizontal: 24,
                                     paddingVertical: 8,
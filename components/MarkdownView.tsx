@@ -0,0 +1,203 @@
+import React, { useMemo, useState } from "react";
+import { Linking, Platform, ScrollView, Text, TextStyle, TouchableOpacity, View } from "react-native";
+import { Ionicons } from '@expo/vector-icons';
+import * as Clipboard from "expo-clipboard";
+import * as WebBrowser from "expo-web-browser";
+import { Block, closeOpenSpans, Inline, parseMarkdown, TableAlign } from "@/markdown/parser";
+import MathView from "@/components/MathView";
+
+const MONOSPACE = Platform.select({ ios: 'Menlo', default: 'monospace' });
+
+const HEADING_SIZES = [24, 21, 19, 17, 16, 15];
+
+const baseText: TextStyle = {
+    fontSize: 16,
+    lineHeight: 24,
+    color: '#1f2937'
+};
+
+const openLink = async (href: string) => {
+    try {
+        if (/^https?:\/\//i.test(href)) {
+            await WebBrowser.openBrowserAsync(href);
+        } else {
+            await Linking.openURL(href);
+        }
+    } catch (error) {
+        console.error("Error opening link:", error);
+    }
+};
+
+const renderInlines = (nodes: Inline[], keyPrefix = ''): React.ReactNode[] => nodes.map((node, index) => {
+    const key = `${keyPrefix}${index}`;
+    switch (node.type) {
+        case 'text':
+            return node.text;
+        case 'strong':
+            return <Text key={key} style={{ fontWeight: 'bold' }}>{renderInlines(node.children, `${key}.`)}</Text>;
+        case 'em':
+            return <Text key={key} style={{ fontStyle: 'italic' }}>{renderInlines(node.children, `${key}.`)}</Text>;
+        case 'strike':
+            return <Text key={key} style={{ textDecorationLine: 'line-through' }}>{renderInlines(node.children, `${key}.`)}</Text>;
+        case 'code':
+            return (
+                <Text key={key} style={{ fontFamily: MONOSPACE, fontSize: 14, backgroundColor: '#eef2ff', color: '#4338ca' }}>
+                    {node.text}
+                </Text>
+            );
+        case 'link':
+            return (
+                <Text key={key} style={{ color: '#6366f1', textDecorationLine: 'underline' }} onPress={() => openLink(node.href)}>
+                    {renderInlines(node.children, `${key}.`)}
+                </Text>
+            );
+        case 'math':
+            // A web view can't sit inside a line of text, so inline formulas keep their TeX source
+            return (
+                <Text key={key} style={{ fontFamily: MONOSPACE, fontSize: 14, color: '#4338ca' }}>
+                    {node.tex}
+                </Text>
+            );
+    }
+});
+
+const CodeBlock = ({ language, code, closed }: { language?: string; code: string; closed: boolean }) => {
+    const [copied, setCopied] = useState(false);
+
+    const copy = async () => {
+        await Clipboard.setStringAsync(code);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 1500);
+    };
+
+    return (
+        <View style={{ backgroundColor: '#1f2937', borderRadius: 8, marginVertical: 6, overflow: 'hidden' }}>
+            <View style={{
+                flexDirection: 'row',
+                alignItems: 'center',
+                justifyContent: 'space-between',
+                paddingHorizontal: 12,
+                paddingVertical: 6,
+                backgroundColor: '#111827'
+            }}>
+                <Text style={{ color: '#9ca3af', fontSize: 12, fontFamily: MONOSPACE }}>
+                    {language || 'code'}
+                </Text>
+                {closed && (
+                    <TouchableOpacity onPress={copy} style={{ flexDirection: 'row', alignItems: 'center' }}>
+                        <Ionicons name={copied ? 'checkmark' : 'copy-outline'} size={14} color="#9ca3af" />
+                        <Text style={{ color: '#9ca3af', fontSize: 12, marginLeft: 4 }}>
+                            {copied ? 'Copied' : 'Copy'}
+                        </Text>
+                    </TouchableOpacity>
+                )}
+            </View>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                <Text style={{ color: '#f9fafb', fontFamily: MONOSPACE, fontSize: 13, lineHeight: 19, padding: 12 }}>
+                    {code}
+                </Text>
+            </ScrollView>
+        </View>
+    );
+};
+
+const textAlignFor = (align: TableAlign): TextStyle['textAlign'] => align ?? 'left';
+
+const renderBlock = (block: Block, key: string): React.ReactNode => {
+    switch (block.type) {
+        case 'paragraph':
+            return (
+                <Text key={key} style={[baseText, { marginVertical: 4 }]}>
+                    {renderInlines(block.children)}
+                </Text>
+            );
+        case 'heading':
+            return (
+                <Text key={key} style={[baseText, {
+                    fontWeight: 'bold',
+                    fontSize: HEADING_SIZES[block.level - 1],
+                    lineHeight: HEADING_SIZES[block.level - 1] + 8,
+                    marginTop: 12,
+                    marginBottom: 4
+                }]}>
+                    {renderInlines(block.children)}
+                </Text>
+            );
+        case 'code':
+            return <CodeBlock key={key} language={block.language} code={block.code} closed={block.closed} />;
+        case 'math':
+            return (
+                <ScrollView key={key} horizontal showsHorizontalScrollIndicator={false} style={{ marginVertical: 6 }}>
+                    <MathView tex={block.tex} />
+                </ScrollView>
+            );
+        case 'list':
+            return (
+                <View key={key} style={{ marginVertical: 4 }}>
+                    {block.items.map((item, index) => (
+                        <View key={index} style={{ flexDirection: 'row' }}>
+                            <Text style={[baseText, { minWidth: block.ordered ? 24 : 16 }]}>
+                                {block.ordered ? `${block.start + index}.` : '•'}
+                            </Text>
+                            <View style={{ flex: 1 }}>
+                                {item.map((child, childIndex) => renderBlock(child, `${key}.${index}.${childIndex}`))}
+                            </View>
+                        </View>
+                    ))}
+                </View>
+            );
+        case 'table':
+            return (
+                <ScrollView key={key} horizontal showsHorizontalScrollIndicator={false} style={{ marginVertical: 6 }}>
+                    <View style={{ borderWidth: 1, borderColor: '#e5e7eb', borderRadius: 6 }}>
+                        {[block.header, ...block.rows].map((row, rowIndex) => (
+                            <View
+                                key={rowIndex}
+                                style={{
+                                    flexDirection: 'row',
+                                    backgroundColor: rowIndex === 0 ? '#f3f4f6' : '#ffffff',
+                                    borderTopWidth: rowIndex === 0 ? 0 : 1,
+                                    borderTopColor: '#e5e7eb'
+                                }}
+                            >
+                                {row.map((cell, cellIndex) => (
+                                    <Text
+                                        key={cellIndex}
+                                        style={{
+                                            width: 120,
+                                            paddingHorizontal: 8,
+                                            paddingVertical: 6,
+                                            fontSize: 14,
+                                            color: '#1f2937',
+                                            fontWeight: rowIndex === 0 ? '600' : 'normal',
+                                            textAlign: textAlignFor(block.align[cellIndex])
+                                        }}
+                                    >
+                                        {renderInlines(cell)}
+                                    </Text>
+                                ))}
+                            </View>
+                        ))}
+                    </View>
+                </ScrollView>
+            );
+        case 'quote':
+            return (
+                <View key={key} style={{ borderLeftWidth: 3, borderLeftColor: '#c7d2fe', paddingLeft: 10, marginVertical: 4 }}>
+                    {block.children.map((child, index) => renderBlock(child, `${key}.${index}`))}
+                </View>
+            );
+        case 'rule':
+            return <View key={key} style={{ height: 1, backgroundColor: '#e5e7eb', marginVertical: 12 }} />;
+    }
+};
+
+export default ({ text, streaming }: { text: string; streaming?: boolean }) => {
+    const blocks = useMemo(() => parseMarkdown(streaming ? closeOpenSpans(text) : text), [text, streaming]);
+
+    return (
+        <View>
+            {blocks.map((block, index) => renderBlock(block, String(index)))}
+        </View>
+    );
+};
@@ -0,0 +1,66 @@
+import React, { useMemo, useState } from "react";
+import { Platform, Text } from "react-native";
+import { WebView, WebViewMessageEvent } from "react-native-webview";
+import katex from "katex";
+
+const MONOSPACE = Platform.select({ ios: 'Menlo', default: 'monospace' });
+
+// KaTeX runs in JS and emits MathML, which the system web view draws without fonts or network access
+const buildPage = (html: string) => `<!DOCTYPE html>
+<html>
+<head>
+<meta name="viewport" content="width=device-width, initial-scale=1, maximum-scale=1">
+<style>
+html, body { margin: 0; padding: 0; background: transparent; color: #1f2937; font-size: 18px; }
+body { display: inline-block; white-space: nowrap; }
+math { padding: 4px 0; }
+</style>
+</head>
+<body>
+${html}
+<script>
+window.ReactNativeWebView.postMessage(JSON.stringify({ width: document.body.scrollWidth, height: document.body.scrollHeight }));
+</script>
+</body>
+</html>`;
+
+// Display math from a $$ block; formulas KaTeX can't parse are shown as their TeX source
+export default ({ tex }: { tex: string }) => {
+    const [size, setSize] = useState({ width: 0, height: 32 });
+
+    const html = useMemo(() => {
+        try {
+            return katex.renderToString(tex, { displayMode: true, output: "mathml", throwOnError: true });
+        } catch {
+            return null;
+        }
+    }, [tex]);
+
+    if (!html) {
+        return (
+            <Text style={{ fontFamily: MONOSPACE, fontSize: 14, color: '#4338ca', paddingVertical: 4 }}>
+                {tex}
+            </Text>
+        );
+    }
+
+    const onMessage = (event: WebViewMessageEvent) => {
+        try {
+            const measured = JSON.parse(event.nativeEvent.data);
+            setSize({ width: measured.width, height: measured.height });
+        } catch (error) {
+            console.error("Error measuring formula:", error);
+        }
+    };
+
+    return (
+        <WebView
+            originWhitelist={['about:blank']}
+            source={{ html: buildPage(html) }}
+            onMessage={onMessage}
+            scrollEnabled={false}
+            javaScriptEnabled
+            style={{ width: size.width || 1, height: size.height, backgroundColor: 'transparent' }}
+        />
+    );
+};
@@ -0,0 +1,55 @@
+import React, { useState } from "react";
+import { Text, TouchableOpacity, View } from "react-native";
+import { Ionicons } from '@expo/vector-icons';
+import { ResponseMetrics, StopReason } from "@/llama/llama.config";
+
+const STOP_REASONS: Record<StopReason, string> = {
+    eos: 'Finished',
+    stop_word: 'Stop word',
+    limit: 'Token limit reached',
+    stopped: 'Stopped by you'
+};
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(ms < 10000 ? 2 : 1)} s`;
+
+const formatRate = (perSecond: number) => `${perSecond.toFixed(1)} tok/s`;
+
+// Timestamp line under a reply; tapping it shows how fast the reply was generated
+export default ({ label, metrics }: { label: string; metrics?: ResponseMetrics }) => {
+    const [expanded, setExpanded] = useState(false);
+
+    if (!metrics) {
+        return <Text style={{ fontSize: 12, color: '#9ca3af', marginTop: 8 }}>{label}</Text>;
+    }
+
+    const rows: [string, string][] = [
+        ['Prompt tokens', metrics.promptTokens !== undefined ? String(metrics.promptTokens) : '—'],
+        ['Generated tokens', String(metrics.generatedTokens)],
+        ['Time to first token', metrics.timeToFirstTokenMs !== undefined ? formatSeconds(metrics.timeToFirstTokenMs) : '—'],
+        ['Generation speed', formatRate(metrics.tokensPerSecond)],
+        ['Prompt speed', metrics.promptTokensPerSecond !== undefined ? formatRate(metrics.promptTokensPerSecond) : '—'],
+        ['Total time', formatSeconds(metrics.totalMs)],
+        ['Stop reason', STOP_REASONS[metrics.stopReason]]
+    ];
+
+    return (
+        <View style={{ marginTop: 8 }}>
+            <TouchableOpacity onPress={() => setExpanded(!expanded)} style={{ flexDirection: 'row', alignItems: 'center' }}>
+                <Text style={{ fontSize: 12, color: '#9ca3af' }}>
+                    {label} • {formatRate(metrics.tokensPerSecond)}
+                </Text>
+                <Ionicons name={expanded ? 'chevron-up' : 'chevron-down'} size={12} color="#9ca3af" style={{ marginLeft: 4 }} />
+            </TouchableOpacity>
+            {expanded && (
+                <View style={{ marginTop: 6 }}>
+                    {rows.map(([name, value]) => (
+                        <View key={name} style={{ flexDirection: 'row', justifyContent: 'space-between', paddingVertical: 1 }}>
+                            <Text style={{ fontSize: 12, color: '#6b7280' }}>{name}</Text>
+                            <Text style={{ fontSize: 12, color: '#374151', fontVariant: ['tabular-nums'] }}>{value}</Text>
+                        </View>
+                    ))}
+                </View>
+            )}
+        </View>
+    );
+};
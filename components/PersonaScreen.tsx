@@ -0,0 +1,235 @@
+import React, { useEffect, useState } from "react";
+import { Alert, Modal, ScrollView, Text, TextInput, TouchableOpacity, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from '@expo/vector-icons';
+import {
+    DEFAULT_PERSONA_ID,
+    deletePersona,
+    duplicatePersona,
+    loadPersonaLibrary,
+    Persona,
+    PersonaLibrary,
+    PROMPT_VARIABLES,
+    savePersona,
+    saveUserName
+} from "@/storage/personas";
+
+interface PersonaDraft {
+    id?: string;
+    name: string;
+    prompt: string;
+}
+
+// Library of named system prompts that chats and models can pick from
+export default ({ onMenuPress }: { onMenuPress: () => void }) => {
+    const [library, setLibrary] = useState<PersonaLibrary | null>(null);
+    const [userName, setUserName] = useState("");
+    const [draft, setDraft] = useState<PersonaDraft | null>(null);
+
+    useEffect(() => {
+        loadPersonaLibrary()
+            .then(loaded => {
+                setLibrary(loaded);
+                setUserName(loaded.userName);
+            })
+            .catch(error => console.error("Error loading personas:", error));
+    }, []);
+
+    const run = async (task: () => Promise<PersonaLibrary>, failureTitle: string) => {
+        try {
+            setLibrary(await task());
+            return true;
+        } catch (error) {
+            console.error(`${failureTitle}:`, error);
+            Alert.alert(failureTitle, error instanceof Error ? error.message : "Please try again.");
+            return false;
+        }
+    };
+
+    const submitDraft = async () => {
+        if (draft && await run(() => savePersona(draft), "Save Failed")) {
+            setDraft(null);
+        }
+    };
+
+    const confirmDelete = (persona: Persona) => {
+        Alert.alert(
+            'Delete Persona',
+            `Delete "${persona.name}"? Chats and models using it switch to the default persona.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Delete', style: 'destructive', onPress: () => run(() => deletePersona(persona.id), "Delete Failed") }
+            ]
+        );
+    };
+
+    const renderEditor = () => draft && (
+        <Modal visible animationType="slide" presentationStyle="pageSheet" onRequestClose={() => setDraft(null)}>
+            <SafeAreaView style={{ flex: 1, backgroundColor: '#ffffff' }}>
+                <View style={{
+                    flexDirection: 'row',
+                    alignItems: 'center',
+                    justifyContent: 'space-between',
+                    paddingHorizontal: 16,
+                    paddingVertical: 12,
+                    borderBottomWidth: 1,
+                    borderBottomColor: '#e5e7eb'
+                }}>
+                    <TouchableOpacity onPress={() => setDraft(null)}>
+                        <Text style={{ color: '#6b7280', fontSize: 16 }}>Cancel</Text>
+                    </TouchableOpacity>
+                    <Text style={{ fontSize: 18, fontWeight: '600', color: '#1f2937' }}>
+                        {draft.id ? 'Edit Persona' : 'New Persona'}
+                    </Text>
+                    <TouchableOpacity onPress={submitDraft}>
+                        <Text style={{ color: '#6366f1', fontSize: 16, fontWeight: '600' }}>Save</Text>
+                    </TouchableOpacity>
+                </View>
+
+                <ScrollView style={{ flex: 1, padding: 16 }} keyboardShouldPersistTaps="handled">
+                    <Text style={{ fontSize: 14, color: '#374151', marginBottom: 6 }}>Name</Text>
+                    <TextInput
+                        style={{
+                            borderWidth: 1,
+                            borderColor: '#e5e7eb',
+                            borderRadius: 8,
+                            padding: 12,
+                            fontSize: 16,
+                            color: '#1f2937',
+                            backgroundColor: '#f9fafb',
+                            marginBottom: 16
+                        }}
+                        placeholder="e.g. Code Reviewer"
+                        placeholderTextColor="#9ca3af"
+                        value={draft.name}
+                        onChangeText={name => setDraft({ ...draft, name })}
+                    />
+
+                    <Text style={{ fontSize: 14, color: '#374151', marginBottom: 6 }}>System Prompt</Text>
+                    <TextInput
+                        style={{
+                            borderWidth: 1,
+                            borderColor: '#e5e7eb',
+                            borderRadius: 12,
+                            padding: 16,
+                            fontSize: 14,
+                            color: '#1f2937',
+                            backgroundColor: '#f9fafb',
+                            minHeight: 200,
+                            textAlignVertical: 'top'
+                        }}
+                        placeholder="Describe how the AI should respond..."
+                        placeholderTextColor="#9ca3af"
+                        value={draft.prompt}
+                        onChangeText={prompt => setDraft({ ...draft, prompt })}
+                        multiline
+                    />
+
+                    <Text style={{ fontSize: 14, color: '#374151', marginTop: 16, marginBottom: 6 }}>
+                        Variables (tap to insert)
+                    </Text>
+                    {PROMPT_VARIABLES.map(variable => (
+                        <TouchableOpacity
+                            key={variable.name}
+                            onPress={() => setDraft({ ...draft, prompt: `${draft.prompt}{{${variable.name}}}` })}
+                            style={{ flexDirection: 'row', alignItems: 'center', paddingVertical: 6 }}
+                        >
+                            <Text style={{ fontSize: 14, color: '#6366f1', fontFamily: 'monospace', marginRight: 8 }}>
+                                {`{{${variable.name}}}`}
+                            </Text>
+                            <Text style={{ flex: 1, fontSize: 13, color: '#6b7280' }}>{variable.description}</Text>
+                        </TouchableOpacity>
+                    ))}
+                </ScrollView>
+            </SafeAreaView>
+        </Modal>
+    );
+
+    return (
+        <SafeAreaView style={{ flex: 1, backgroundColor: '#ffffff' }}>
+            <View style={{
+                flexDirection: 'row',
+                alignItems: 'center',
+                justifyContent: 'space-between',
+                paddingHorizontal: 16,
+                paddingVertical: 12,
+                borderBottomWidth: 1,
+                borderBottomColor: '#e5e7eb'
+            }}>
+                <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+                    <TouchableOpacity style={{ marginRight: 16 }} onPress={onMenuPress}>
+                        <Ionicons name="menu" size={24} color="#6b7280" />
+                    </TouchableOpacity>
+                    <Text style={{ fontSize: 18, fontWeight: '600', color: '#1f2937' }}>
+                        Personas
+                    </Text>
+                </View>
+                <TouchableOpacity
+                    style={{ flexDirection: 'row', alignItems: 'center' }}
+                    onPress={() => setDraft({ name: '', prompt: '' })}
+                >
+                    <Ionicons name="add" size={18} color="#6366f1" />
+                    <Text style={{ marginLeft: 4, fontSize: 14, fontWeight: '600', color: '#6366f1' }}>
+                        New Persona
+                    </Text>
+                </TouchableOpacity>
+            </View>
+
+            <ScrollView style={{ flex: 1, padding: 16 }} keyboardShouldPersistTaps="handled">
+                <Text style={{ fontSize: 14, color: '#374151', marginBottom: 6 }}>Your Name</Text>
+                <TextInput
+                    style={{
+                        borderWidth: 1,
+                        borderColor: '#e5e7eb',
+                        borderRadius: 8,
+                        padding: 12,
+                        fontSize: 16,
+                        color: '#1f2937',
+                        backgroundColor: '#f9fafb'
+                    }}
+                    placeholder="Used for {{user_name}}"
+                    placeholderTextColor="#9ca3af"
+                    value={userName}
+                    onChangeText={setUserName}
+                    onEndEditing={() => run(() => saveUserName(userName), "Save Failed")}
+                    autoCorrect={false}
+                />
+                <Text style={{ fontSize: 12, color: '#9ca3af', marginTop: 4, marginBottom: 16 }}>
+                    Pick a persona for a chat, or make one the default for a model, from the chat settings.
+                </Text>
+
+                {library?.personas.map(persona => (
+                    <View key={persona.id} style={{ backgroundColor: '#f8fafc', borderWidth: 1, borderColor: '#e5e7eb', borderRadius: 12, padding: 16, marginBottom: 12 }}>
+                        <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 6 }}>
+                            <Text style={{ flex: 1, fontSize: 16, fontWeight: '600', color: '#1f2937' }}>
+                                {persona.name}
+                                {persona.id === DEFAULT_PERSONA_ID && (
+                                    <Text style={{ fontSize: 12, fontWeight: '400', color: '#9ca3af' }}> • Built-in</Text>
+                                )}
+                            </Text>
+                            <TouchableOpacity
+                                style={{ padding: 6 }}
+                                onPress={() => setDraft({ id: persona.id, name: persona.name, prompt: persona.prompt })}
+                            >
+                                <Ionicons name="pencil" size={16} color="#6b7280" />
+                            </TouchableOpacity>
+                            <TouchableOpacity style={{ padding: 6 }} onPress={() => run(() => duplicatePersona(persona.id), "Duplicate Failed")}>
+                                <Ionicons name="copy-outline" size={16} color="#6b7280" />
+                            </TouchableOpacity>
+                            {persona.id !== DEFAULT_PERSONA_ID && (
+                                <TouchableOpacity style={{ padding: 6 }} onPress={() => confirmDelete(persona)}>
+                                    <Ionicons name="trash" size={16} color="#ef4444" />
+                                </TouchableOpacity>
+                            )}
+                        </View>
+                        <Text numberOfLines={4} style={{ fontSize: 13, color: '#6b7280', lineHeight: 18 }}>
+                            {persona.prompt}
+                        </Text>
+                    </View>
+                ))}
+            </ScrollView>
+
+            {renderEditor()}
+        </SafeAreaView>
+    );
+};
@@ -0,0 +1,44 @@
+import React, { useState } from "react";
+import { ActivityIndicator, Text, TouchableOpacity, View } from "react-native";
+import { Ionicons } from '@expo/vector-icons';
+
+const formatDuration = (ms?: number) => {
+    if (ms === undefined) return 'Thought';
+    const seconds = Math.max(1, Math.round(ms / 1000));
+    return `Thought for ${seconds} s`;
+};
+
+// Collapsible view of a reply's <think> section; open while the model is still reasoning
+export default ({ reasoning, durationMs, active }: { reasoning: string; durationMs?: number; active?: boolean }) => {
+    const [expanded, setExpanded] = useState(false);
+    const isOpen = expanded || !!active;
+
+    return (
+        <View style={{
+            borderLeftWidth: 2,
+            borderLeftColor: '#d1d5db',
+            paddingLeft: 10,
+            marginBottom: 8
+        }}>
+            <TouchableOpacity
+                onPress={() => setExpanded(!expanded)}
+                disabled={active}
+                style={{ flexDirection: 'row', alignItems: 'center', paddingVertical: 2 }}
+            >
+                {active ? (
+                    <ActivityIndicator size="small" color="#9ca3af" style={{ marginRight: 6 }} />
+                ) : (
+                    <Ionicons name={isOpen ? 'chevron-down' : 'chevron-forward'} size={14} color="#9ca3af" style={{ marginRight: 4 }} />
+                )}
+                <Text style={{ fontSize: 13, color: '#6b7280', fontWeight: '500' }}>
+                    {active ? 'Thinking…' : formatDuration(durationMs)}
+                </Text>
+            </TouchableOpacity>
+            {isOpen && (
+                <Text style={{ fontSize: 14, lineHeight: 20, color: '#9ca3af', fontStyle: 'italic', marginTop: 4 }}>
+                    {reasoning.trim()}
+                </Text>
+            )}
+        </View>
+    );
+};
@@ -0,0 +1,144 @@
+import React, { useEffect, useRef, useState } from "react";
+import { ActivityIndicator, FlatList, Text, TextInput, TouchableOpacity, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from '@expo/vector-icons';
+import { ConversationSummary } from "@/storage/conversations";
+import { searchMessages, SearchResult } from "@/storage/searchIndex";
+
+// Wait for a pause in typing before querying
+const SEARCH_DELAY_MS = 200;
+
+const HighlightedSnippet = ({ snippet, highlights }: Pick<SearchResult, "snippet" | "highlights">) => {
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+    for (const [start, end] of highlights) {
+        // A prefix match can overlap the full word it belongs to
+        if (start < cursor) {
+            continue;
+        }
+        parts.push(snippet.substring(cursor, start));
+        parts.push(
+            <Text key={start} style={{ backgroundColor: '#fef08a', color: '#1f2937', fontWeight: '600' }}>
+                {snippet.substring(start, end)}
+            </Text>
+        );
+        cursor = end;
+    }
+    parts.push(snippet.substring(cursor));
+
+    return (
+        <Text numberOfLines={3} style={{ fontSize: 14, color: '#374151', lineHeight: 20 }}>
+            {parts}
+        </Text>
+    );
+};
+
+// Searches the text of every saved chat; choosing a result opens the chat at that message
+export default ({ conversations, onMenuPress, onOpenResult }: {
+    conversations: ConversationSummary[];
+    onMenuPress: () => void;
+    onOpenResult: (conversationId: string, messageId: string) => void;
+}) => {
+    const [query, setQuery] = useState("");
+    const [results, setResults] = useState<SearchResult[]>([]);
+    const [isSearching, setIsSearching] = useState(false);
+    // Ignores results of queries that were overtaken by newer typing
+    const latestQueryRef = useRef("");
+
+    useEffect(() => {
+        latestQueryRef.current = query;
+        if (!query.trim()) {
+            setResults([]);
+            setIsSearching(false);
+            return;
+        }
+
+        setIsSearching(true);
+        const timer = setTimeout(() => {
+            searchMessages(query)
+                .then(found => {
+                    if (latestQueryRef.current === query) {
+                        setResults(found);
+                    }
+                })
+                .catch(error => console.error("Error searching messages:", error))
+                .finally(() => {
+                    if (latestQueryRef.current === query) {
+                        setIsSearching(false);
+                    }
+                });
+        }, SEARCH_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [query]);
+
+    const titles = new Map(conversations.map(conversation => [conversation.id, conversation.title]));
+
+    const renderResult = ({ item }: { item: SearchResult }) => (
+        <TouchableOpacity
+            style={{ paddingHorizontal: 16, paddingVertical: 12, borderBottomWidth: 1, borderBottomColor: '#f3f4f6' }}
+            onPress={() => onOpenResult(item.conversationId, item.messageId)}
+        >
+            <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 4 }}>
+                <Ionicons name={item.isUser ? 'person' : 'sparkles'} size={12} color="#6366f1" />
+                <Text numberOfLines={1} style={{ flex: 1, marginLeft: 6, fontSize: 13, fontWeight: '600', color: '#1f2937' }}>
+                    {titles.get(item.conversationId) ?? 'Chat'}
+                </Text>
+                <Text style={{ fontSize: 12, color: '#9ca3af', marginLeft: 8 }}>
+                    {new Date(item.timestamp).toLocaleDateString()}
+                </Text>
+            </View>
+            <HighlightedSnippet snippet={item.snippet} highlights={item.highlights} />
+        </TouchableOpacity>
+    );
+
+    return (
+        <SafeAreaView style={{ flex: 1, backgroundColor: '#ffffff' }}>
+            <View style={{
+                flexDirection: 'row',
+                alignItems: 'center',
+                paddingHorizontal: 16,
+                paddingVertical: 12,
+                borderBottomWidth: 1,
+                borderBottomColor: '#e5e7eb'
+            }}>
+                <TouchableOpacity style={{ marginRight: 16 }} onPress={onMenuPress}>
+                    <Ionicons name="menu" size={24} color="#6b7280" />
+                </TouchableOpacity>
+                <View style={{
+                    flex: 1,
+                    flexDirection: 'row',
+                    alignItems: 'center',
+                    backgroundColor: '#f3f4f6',
+                    borderRadius: 10,
+                    paddingHorizontal: 10
+                }}>
+                    <Ionicons name="search" size={16} color="#9ca3af" />
+                    <TextInput
+                        style={{ flex: 1, fontSize: 16, color: '#1f2937', paddingVertical: 8, marginLeft: 6 }}
+                        placeholder="Search all chats"
+                        placeholderTextColor="#9ca3af"
+                        value={query}
+                        onChangeText={setQuery}
+                        autoFocus
+                        autoCorrect={false}
+                        returnKeyType="search"
+                        clearButtonMode="while-editing"
+                    />
+                    {isSearching && <ActivityIndicator size="small" color="#6366f1" />}
+                </View>
+            </View>
+
+            <FlatList
+                data={results}
+                keyExtractor={item => `${item.conversationId}/${item.messageId}`}
+                renderItem={renderResult}
+                keyboardShouldPersistTaps="handled"
+                ListEmptyComponent={
+                    <Text style={{ fontSize: 14, color: '#9ca3af', textAlign: 'center', marginTop: 32 }}>
+                        {!query.trim() ? 'Find messages in any saved chat' : isSearching ? '' : 'No messages match'}
+                    </Text>
+                }
+            />
+        </SafeAreaView>
+    );
+};
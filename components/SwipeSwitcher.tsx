@@ -0,0 +1,30 @@
+import React, { useRef } from "react";
+import { PanResponder, View } from "react-native";
+
+// Horizontal distance that counts as a deliberate swipe rather than a wobble while scrolling
+const SWIPE_DISTANCE = 60;
+
+// Calls onPrevious / onNext for horizontal swipes and leaves vertical drags to the list
+export default ({ children, onPrevious, onNext }: {
+    children: React.ReactNode;
+    onPrevious?: () => void;
+    onNext?: () => void;
+}) => {
+    // The responder is created once, so it reads the latest handlers through a ref
+    const handlers = useRef({ onPrevious, onNext });
+    handlers.current = { onPrevious, onNext };
+
+    const responder = useRef(PanResponder.create({
+        onMoveShouldSetPanResponder: (_, gesture) =>
+            Math.abs(gesture.dx) > 20 && Math.abs(gesture.dx) > Math.abs(gesture.dy) * 2,
+        onPanResponderRelease: (_, gesture) => {
+            if (gesture.dx <= -SWIPE_DISTANCE) {
+                handlers.current.onNext?.();
+            } else if (gesture.dx >= SWIPE_DISTANCE) {
+                handlers.current.onPrevious?.();
+            }
+        }
+    })).current;
+
+    return <View {...responder.panHandlers}>{children}</View>;
+};
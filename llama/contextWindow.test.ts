@@ -0,0 +1,91 @@
+import { LlamaContext } from "llama.rn";
+import { fitMessagesToContext, getContextBudget } from "./contextWindow";
+import { ChatMessage } from "./llama.config";
+
+// One token per word keeps the arithmetic readable
+let contextId = 0;
+const createContext = () => ({
+    id: ++contextId,
+    tokenize: jest.fn(async (text: string) => ({ tokens: text.split(/\s+/).filter(Boolean) }))
+}) as unknown as LlamaContext;
+
+const SYSTEM_PROMPT = "You are helpful.";
+
+const words = (count: number) => Array.from({ length: count }, (_, index) => `w${index}`).join(" ");
+
+beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe("fitMessagesToContext", () => {
+    it("skips a leading assistant turn without reporting truncation", async () => {
+        const turns: ChatMessage[] = [
+            { role: "assistant", content: "Welcome! What would you like to work on today?" },
+            { role: "user", content: "Hi there" }
+        ];
+
+        const fitted = await fitMessagesToContext(createContext(), SYSTEM_PROMPT, turns, getContextBudget(2048));
+
+        expect(fitted.droppedCount).toBe(0);
+        expect(fitted.messages).toEqual([
+            { role: "system", content: SYSTEM_PROMPT },
+            { role: "user", content: "Hi there" }
+        ]);
+        expect(console.log).not.toHaveBeenCalled();
+    });
+
+    it("keeps everything from the first user turn when the history fits", async () => {
+        const turns: ChatMessage[] = [
+            { role: "user", content: "one" },
+            { role: "assistant", content: "two" },
+            { role: "user", content: "three" }
+        ];
+
+        const fitted = await fitMessagesToContext(createContext(), SYSTEM_PROMPT, turns, getContextBudget(2048));
+
+        expect(fitted.droppedCount).toBe(0);
+        expect(fitted.messages.slice(1)).toEqual(turns);
+    });
+
+    it("drops the oldest turns for the budget and says so in the system prompt", async () => {
+        const turns: ChatMessage[] = [
+            { role: "assistant", content: "Welcome!" },
+            { role: "user", content: words(60) },
+            { role: "assistant", content: words(60) },
+            { role: "user", content: words(10) },
+            { role: "assistant", content: words(10) },
+            { role: "user", content: words(10) }
+        ];
+        // 200 tokens of context with 50 reserved for the reply leaves room for the last three turns only
+        const fitted = await fitMessagesToContext(createContext(), SYSTEM_PROMPT, turns, getContextBudget(200, 50));
+
+        expect(fitted.droppedCount).toBe(2);
+        expect(fitted.messages[0].content).toMatch(/^You are helpful\.\n\nEarlier messages/);
+        expect(fitted.messages.slice(1)).toEqual(turns.slice(3));
+        expect(fitted.promptTokens).toBeLessThanOrEqual(150);
+    });
+
+    it("never opens the kept history with an assistant turn", async () => {
+        const turns: ChatMessage[] = [
+            { role: "user", content: words(100) },
+            { role: "assistant", content: words(10) },
+            { role: "user", content: words(10) }
+        ];
+
+        const fitted = await fitMessagesToContext(createContext(), SYSTEM_PROMPT, turns, getContextBudget(200, 50));
+
+        expect(fitted.droppedCount).toBe(2);
+        expect(fitted.messages.slice(1)).toEqual([turns[2]]);
+    });
+
+    it("rejects a message that can't fit on its own", async () => {
+        const turns: ChatMessage[] = [{ role: "user", content: words(300) }];
+
+        await expect(fitMessagesToContext(createContext(), SYSTEM_PROMPT, turns, getContextBudget(200, 50)))
+            .rejects.toThrow("Message is too long for the 200-token context window");
+    });
+});
@@ -0,0 +1,121 @@
+import { LlamaContext } from "llama.rn";
+import { ChatMessage } from "./llama.config";
+
+// Rough allowance for the role markers the chat template wraps around each turn
+const TEMPLATE_TOKENS_PER_MESSAGE = 8;
+// Images are encoded by the projector rather than the tokenizer, so budget a fixed amount
+const IMAGE_TOKEN_ESTIMATE = 768;
+// Share of the context kept free for the model's reply
+const RESPONSE_SHARE = 0.25;
+// A longer requested reply can't crowd the prompt out of more than half the window
+const MAX_RESPONSE_SHARE = 0.5;
+const MAX_CACHED_COUNTS = 500;
+
+const TRUNCATION_NOTE = "Earlier messages in this conversation were omitted to fit the context window.";
+
+export interface ContextBudget {
+    contextLength: number;
+    responseTokens: number;
+}
+
+export interface FittedMessages {
+    messages: ChatMessage[];
+    promptTokens: number;
+    droppedCount: number;
+}
+
+const tokenCountCache = new Map<string, number>();
+
+export const getContextBudget = (contextLength: number, responseTokens?: number): ContextBudget => ({
+    contextLength,
+    responseTokens: Math.min(
+        responseTokens ?? Math.floor(contextLength * RESPONSE_SHARE),
+        Math.floor(contextLength * MAX_RESPONSE_SHARE)
+    )
+});
+
+const countTextTokens = async (context: LlamaContext, text: string) => {
+    const key = `${context.id}:${text}`;
+    const cached = tokenCountCache.get(key);
+    if (cached !== undefined) {
+        return cached;
+    }
+
+    const { tokens } = await context.tokenize(text);
+    if (tokenCountCache.size >= MAX_CACHED_COUNTS) {
+        tokenCountCache.clear();
+    }
+    tokenCountCache.set(key, tokens.length);
+    return tokens.length;
+};
+
+export const countMessageTokens = async (context: LlamaContext, message: ChatMessage) => {
+    if (typeof message.content === "string") {
+        return TEMPLATE_TOKENS_PER_MESSAGE + await countTextTokens(context, message.content);
+    }
+
+    let total = TEMPLATE_TOKENS_PER_MESSAGE;
+    for (const part of message.content) {
+        if (part.type === "image_url") {
+            total += IMAGE_TOKEN_ESTIMATE;
+        } else if (part.text) {
+            total += await countTextTokens(context, part.text);
+        }
+    }
+    return total;
+};
+
+// Keep the system prompt and as many of the newest turns as fit, dropping the oldest ones first
+export const fitMessagesToContext = async (
+    context: LlamaContext,
+    systemPrompt: string,
+    turns: ChatMessage[],
+    budget: ContextBudget
+): Promise<FittedMessages> => {
+    const promptBudget = budget.contextLength - budget.responseTokens;
+    const systemTokens = await countMessageTokens(context, { role: "system", content: `${systemPrompt}\n\n${TRUNCATION_NOTE}` });
+
+    // Replies before the first user turn, such as the welcome message, are never sent; skipping
+    // them isn't truncation
+    let start = 0;
+    while (start < turns.length - 1 && turns[start].role !== "user") {
+        start++;
+    }
+    const history = turns.slice(start);
+
+    let used = systemTokens;
+    let firstKept = history.length;
+    const counts: number[] = [];
+    for (let i = history.length - 1; i >= 0; i--) {
+        counts[i] = await countMessageTokens(context, history[i]);
+        if (used + counts[i] > promptBudget) {
+            break;
+        }
+        used += counts[i];
+        firstKept = i;
+    }
+
+    if (firstKept === history.length && history.length > 0) {
+        throw new Error(`Message is too long for the ${budget.contextLength}-token context window`);
+    }
+
+    // Chat templates expect the history to open with a user turn
+    while (firstKept < history.length - 1 && history[firstKept].role !== "user") {
+        used -= counts[firstKept];
+        firstKept++;
+    }
+
+    const droppedCount = firstKept;
+    if (droppedCount > 0) {
+        console.log(`✂️  Dropped ${droppedCount} oldest messages to fit ${promptBudget} prompt tokens`);
+    }
+
+    return {
+        messages: [
+            { role: "system", content: droppedCount > 0 ? `${systemPrompt}\n\n${TRUNCATION_NOTE}` : systemPrompt },
+            ...history.slice(firstKept)
+        ],
+        promptTokens: used,
+        droppedCount
+    };
+};
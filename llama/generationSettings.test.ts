@@ -0,0 +1,42 @@
+import { GenerationSettings, mergeGenerationSettings, toSavedSettings } from "./generationSettings";
+
+const DEFAULTS: GenerationSettings = {
+    temperature: 0.7,
+    top_p: 0.9,
+    top_k: 40,
+    min_p: 0.05,
+    penalty_repeat: 1.1,
+    maxTokens: 512,
+    stopWords: []
+};
+
+// Chats are stored as JSON, so settings only count once they survive a round trip
+const roundTrip = (settings: GenerationSettings) => JSON.parse(JSON.stringify(toSavedSettings(settings)));
+
+describe("mergeGenerationSettings", () => {
+    it("keeps a cleared optional field cleared after a save and load", () => {
+        const cleared: GenerationSettings = { ...DEFAULTS, top_k: undefined, penalty_repeat: undefined };
+
+        const merged = mergeGenerationSettings(DEFAULTS, roundTrip(cleared));
+
+        expect(merged.top_k).toBeUndefined();
+        expect(merged.penalty_repeat).toBeUndefined();
+        expect(merged.min_p).toBe(0.05);
+    });
+
+    it("keeps saved values, including an optional field the defaults leave unset", () => {
+        const saved: GenerationSettings = { ...DEFAULTS, temperature: 0.2, seed: 42, stopWords: ["END"] };
+
+        expect(mergeGenerationSettings(DEFAULTS, roundTrip(saved))).toEqual(saved);
+    });
+
+    it("falls back to the defaults for fields missing from older saves", () => {
+        const merged = mergeGenerationSettings(DEFAULTS, { temperature: 0.2, top_p: 0.8, maxTokens: 256 });
+
+        expect(merged).toEqual({ ...DEFAULTS, temperature: 0.2, top_p: 0.8, maxTokens: 256 });
+    });
+
+    it("uses the defaults when nothing was saved", () => {
+        expect(mergeGenerationSettings(DEFAULTS)).toBe(DEFAULTS);
+    });
+});
@@ -0,0 +1,130 @@
+import { ModelConfig } from "@/models/catalog";
+
+export interface GenerationSettings {
+    temperature: number;
+    top_p: number;
+    top_k?: number;
+    min_p?: number;
+    penalty_repeat?: number;
+    // Fixed seed for reproducible replies; unset picks a random one per request
+    seed?: number;
+    // Upper bound on reply length, sent as n_predict
+    maxTokens: number;
+    // Extra stop sequences on top of the built-in end-of-turn markers
+    stopWords: string[];
+}
+
+export type SettingsDraft = Record<keyof GenerationSettings, string>;
+
+type OptionalSettingKey = "top_k" | "min_p" | "penalty_repeat" | "seed";
+
+// As stored with a chat: an optional field the user cleared is null, since JSON drops undefined
+// and the model default would come back on the next load
+export type SavedGenerationSettings = Omit<GenerationSettings, OptionalSettingKey> &
+    Partial<Record<OptionalSettingKey, number | null>>;
+
+interface NumericField {
+    key: Exclude<keyof GenerationSettings, "stopWords">;
+    label: string;
+    min: number;
+    max: number;
+    integer?: boolean;
+    optional?: boolean;
+}
+
+export const NUMERIC_FIELDS: NumericField[] = [
+    { key: "temperature", label: "Temperature", min: 0, max: 2 },
+    { key: "top_p", label: "Top P", min: 0, max: 1 },
+    { key: "top_k", label: "Top K", min: 0, max: 200, integer: true, optional: true },
+    { key: "min_p", label: "Min P", min: 0, max: 1, optional: true },
+    { key: "penalty_repeat", label: "Repeat Penalty", min: 0.5, max: 2, optional: true },
+    { key: "seed", label: "Seed", min: 0, max: 2 ** 31 - 1, integer: true, optional: true },
+    { key: "maxTokens", label: "Max Tokens", min: 16, max: 8192, integer: true }
+];
+
+export const getDefaultGenerationSettings = (model: ModelConfig, maxTokens: number): GenerationSettings => ({
+    ...model.sampling,
+    maxTokens,
+    stopWords: []
+});
+
+export const toSavedSettings = (settings: GenerationSettings): SavedGenerationSettings => ({
+    ...settings,
+    top_k: settings.top_k ?? null,
+    min_p: settings.min_p ?? null,
+    penalty_repeat: settings.penalty_repeat ?? null,
+    seed: settings.seed ?? null
+});
+
+// Saved settings win, including fields cleared to null, but fields added since they were saved fall back to the model defaults
+export const mergeGenerationSettings = (defaults: GenerationSettings, saved?: Partial<SavedGenerationSettings>): GenerationSettings => {
+    if (!saved) {
+        return defaults;
+    }
+    const { top_k, min_p, penalty_repeat, seed, ...rest } = { ...defaults, ...saved };
+    return {
+        ...rest,
+        top_k: top_k ?? undefined,
+        min_p: min_p ?? undefined,
+        penalty_repeat: penalty_repeat ?? undefined,
+        seed: seed ?? undefined,
+        stopWords: saved.stopWords ?? defaults.stopWords
+    };
+};
+
+export const toSettingsDraft = (settings: GenerationSettings): SettingsDraft => ({
+    temperature: String(settings.temperature),
+    top_p: String(settings.top_p),
+    top_k: settings.top_k !== undefined ? String(settings.top_k) : "",
+    min_p: settings.min_p !== undefined ? String(settings.min_p) : "",
+    penalty_repeat: settings.penalty_repeat !== undefined ? String(settings.penalty_repeat) : "",
+    seed: settings.seed !== undefined ? String(settings.seed) : "",
+    maxTokens: String(settings.maxTokens),
+    stopWords: settings.stopWords.join("\n")
+});
+
+export const isSameSettings = (a: GenerationSettings, b: GenerationSettings) =>
+    JSON.stringify(toSettingsDraft(a)) === JSON.stringify(toSettingsDraft(b));
+
+// Validate the text fields from the settings panel, returning either settings or one message per bad field
+export const parseSettingsDraft = (draft: SettingsDraft): { settings?: GenerationSettings; errors: string[] } => {
+    const errors: string[] = [];
+    const values: Partial<Record<NumericField["key"], number>> = {};
+
+    for (const field of NUMERIC_FIELDS) {
+        const text = draft[field.key].trim();
+        if (!text) {
+            if (!field.optional) {
+                errors.push(`${field.label} is required`);
+            }
+            continue;
+        }
+
+        const value = Number(text);
+        if (!Number.isFinite(value) || (field.integer && !Number.isInteger(value))) {
+            errors.push(`${field.label} must be ${field.integer ? "a whole number" : "a number"}`);
+        } else if (value < field.min || value > field.max) {
+            errors.push(`${field.label} must be between ${field.min} and ${field.max}`);
+        } else {
+            values[field.key] = value;
+        }
+    }
+
+    if (errors.length > 0) {
+        return { errors };
+    }
+
+    return {
+        settings: {
+            temperature: values.temperature!,
+            top_p: values.top_p!,
+            top_k: values.top_k,
+            min_p: values.min_p,
+            penalty_repeat: values.penalty_repeat,
+            seed: values.seed,
+            maxTokens: values.maxTokens!,
+            stopWords: draft.stopWords.split("\n").filter(word => word.length > 0)
+        },
+        errors
+    };
+};
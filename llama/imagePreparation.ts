@@ -0,0 +1,55 @@
+import * as FileSystem from "expo-file-system";
+import { ImageManipulator, SaveFormat } from "expo-image-manipulator";
+
+// Longest side used when the catalog doesn't say what the projector was trained on
+export const DEFAULT_IMAGE_RESOLUTION = 768;
+
+const JPEG_QUALITY = 0.85;
+
+const CACHE_DIRECTORY = () => FileSystem.cacheDirectory + "prepared_images/";
+
+// FNV-1a over the source URI; picked photos keep their URI, so this is stable between sends
+const hashUri = (uri: string) => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < uri.length; i++) {
+        hash ^= uri.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, "0");
+};
+
+// Scale so the longest side is at most maxSide, never upscaling
+const fitWithin = (width: number, height: number, maxSide: number) => {
+    const scale = Math.min(1, maxSide / Math.max(width, height));
+    return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+const renderPreparedImage = async (uri: string, maxSide: number, target: string) => {
+    // Decoding applies the EXIF orientation and reads HEIC, so the saved JPEG is upright and portable
+    const source = await ImageManipulator.manipulate(uri).renderAsync();
+    const size = fitWithin(source.width, source.height, maxSide);
+    const image = size.width === source.width && size.height === source.height
+        ? source
+        : await ImageManipulator.manipulate(source).resize(size).renderAsync();
+    const result = await image.saveAsync({ compress: JPEG_QUALITY, format: SaveFormat.JPEG });
+
+    await FileSystem.moveAsync({ from: result.uri, to: target });
+    console.log(`🖼️  Prepared image ${source.width}x${source.height} → ${size.width}x${size.height}`);
+};
+
+// Downscale an attached image for the vision projector, reusing earlier results. Falls back to the
+// original file if it can't be converted so the message can still be sent.
+export const prepareImage = async (uri: string, maxSide: number = DEFAULT_IMAGE_RESOLUTION): Promise<string> => {
+    const target = `${CACHE_DIRECTORY()}${hashUri(uri)}_${maxSide}.jpg`;
+    try {
+        if ((await FileSystem.getInfoAsync(target)).exists) {
+            return target;
+        }
+        await FileSystem.makeDirectoryAsync(CACHE_DIRECTORY(), { intermediates: true });
+        await renderPreparedImage(uri, maxSide, target);
+        return target;
+    } catch (error) {
+        console.error("Error preparing image, sending original:", error);
+        return uri;
+    }
+};
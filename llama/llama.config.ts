@@ -1,5 +1,7 @@
-import { initLlama, LlamaContext } from "llama.rn";
-import * as FileSystem from 'expo-file-system';
+import { initLlama, LlamaContext, RNLlamaMessagePart } from "llama.rn";
+import { GenerationSettings } from "./generationSettings";
+import { LoadOptions } from "./loadOptions";
+import { StreamFilter, StreamState } from "./streamFilter";
 
 export const stopWords = [
     "</s>",
@@ -13,12 +15,12 @@ export const stopWords = [
     "<|endoftext|>",
 ];
 
-export const loadModel = async (modelPath: string, mmprojPath?: string) => {
+export const loadModel = async (modelPath: string, mmprojPath: string | undefined, options: LoadOptions) => {
+    console.log("📐 Loading model with options:", options);
     const context = await initLlama({
         model: modelPath,
-        use_mlock: true,
-        n_ctx: 131072,
-        n_gpu_layers: 1, // > 0: enable Metal on iOS
+        ...options,
+        n_threads: options.n_threads > 0 ? options.n_threads : undefined,
         // embedding: true, // use embedding
     });
 
@@ -29,7 +31,7 @@ export const loadModel = async (modelPath: string, mmprojPath?: string) => {
             console.log("📁 Using mmproj file:", mmprojPath);
             const multimodalInitialized = await context.initMultimodal({
                 path: mmprojPath,
-                use_gpu: true,
+                use_gpu: options.n_gpu_layers > 0,
             });
             
             if (multimodalInitialized) {
@@ -49,92 +51,178 @@ export const loadModel = async (modelPath: string, mmprojPath?: string) => {
     return context;
 };
 
-// Clean response text by removing unwanted tokens
-const cleanResponse = (text: string): string => {
-    // Limit thinking content to first 200 characters to reduce token usage
-    const limitedThinking = text.replace(/<think>(.*?)<\/think>/gs, (match, thinkingContent) => {
-        if (thinkingContent.length > 200) {
-            return `<think>${thinkingContent.substring(0, 200)}...</think>`;
+export type ChatRole = "system" | "user" | "assistant";
+
+export interface ChatMessage {
+    role: ChatRole;
+    content: string | RNLlamaMessagePart[];
+}
+
+// Build the content for a user turn, attaching each image as its own part
+export const buildUserContent = (text: string, imageUris: string[] = []): ChatMessage["content"] => {
+    if (imageUris.length === 0) {
+        return text;
+    }
+
+    return [
+        {
+            type: "text",
+            text: text || (imageUris.length > 1 ? "What's in these images?" : "What's in this image?")
+        },
+        ...imageUris.map((url): RNLlamaMessagePart => ({
+            type: "image_url",
+            image_url: {
+                url
+            }
+        }))
+    ];
+};
+
+const hasImage = (message: ChatMessage) =>
+    Array.isArray(message.content) && message.content.some(part => part.type === "image_url");
+
+export type StopReason = "eos" | "stop_word" | "limit" | "stopped";
+
+export interface ResponseMetrics {
+    // Prompt tokens llama.cpp had to evaluate; a prefix reused from the previous turn isn't counted
+    promptTokens?: number;
+    generatedTokens: number;
+    // From starting the request to the first streamed token, so it includes prompt processing
+    timeToFirstTokenMs?: number;
+    tokensPerSecond: number;
+    promptTokensPerSecond?: number;
+    totalMs: number;
+    stopReason: StopReason;
+}
+
+export interface CompletionOutcome {
+    text: string;
+    reasoning?: string;
+    // Time from the first token until the model closed its reasoning
+    reasoningMs?: number;
+    stopReason: StopReason;
+    metrics: ResponseMetrics;
+}
+
+const toOutcome = (state: StreamState, metrics: ResponseMetrics, reasoningMs?: number): CompletionOutcome => ({
+    text: state.content,
+    reasoning: state.reasoning || undefined,
+    reasoningMs: state.reasoning ? reasoningMs : undefined,
+    stopReason: metrics.stopReason,
+    metrics
+});
+
+// Used when the completion rejected and llama.rn returned no timings: what we saw streaming is all there is
+const measureStream = (tokenCount: number, startTime: number, firstTokenAt: number | undefined, stopReason: StopReason): ResponseMetrics => {
+    const endTime = Date.now();
+    const generationMs = firstTokenAt !== undefined ? endTime - firstTokenAt : 0;
+    return {
+        generatedTokens: tokenCount,
+        timeToFirstTokenMs: firstTokenAt !== undefined ? firstTokenAt - startTime : undefined,
+        tokensPerSecond: generationMs > 0 ? (tokenCount - 1) / (generationMs / 1000) : 0,
+        totalMs: endTime - startTime,
+        stopReason
+    };
+};
+
+// Qwen3's soft switch: a trailing /no_think on the user turn skips reasoning for that reply
+const disableThinking = (messages: ChatMessage[]): ChatMessage[] => {
+    const lastUserIndex = messages.map(msg => msg.role).lastIndexOf("user");
+    return messages.map((message, index) => {
+        if (index !== lastUserIndex) {
+            return message;
         }
-        return match;
+        if (typeof message.content === "string") {
+            return { ...message, content: `${message.content} /no_think` };
+        }
+        return {
+            ...message,
+            content: message.content.map(part => part.type === "text" ? { ...part, text: `${part.text ?? ""} /no_think` } : part)
+        };
     });
-    
-    return limitedThinking
-        .replace(/<think>.*?<\/think>/gs, '') // Remove think tags and their content
-        .replace(/REDACTED_SPECIAL_TOKEN/g, '') // Remove redacted tokens
-        .replace(/<\|.*?\|>/g, '') // Remove any remaining special tokens
-        .replace(/< \｜end_of_sentence\｜>/gi, '') // Remove end of sentence tokens
-        .replace(/<\｜.*?end.*?\｜>/gi, '') // Remove any end-related tokens
-        .replace(/\n\s*\n\s*\n/g, '\n\n') // Normalize multiple newlines to double newlines
-        .replace(/[ \t]+/g, ' ') // Normalize horizontal whitespace only
-        .trim();
 };
 
-export const sendMessage = async (context: LlamaContext, message: string, onToken?: (token: string) => void, maxParams?: number, imageUri?: string) => {
+// Contexts whose current completion was cancelled by the user
+const stopRequested = new Set<number>();
+
+// Call where a send begins, before the prompt is prepared: a Stop tapped while images are converted
+// and turns are counted must still cancel the completion that follows
+export const startGeneration = (context: LlamaContext) => {
+    stopRequested.delete(context.id);
+};
+
+export const stopGeneration = async (context: LlamaContext) => {
+    console.log("⏹️  Stopping completion for context", context.id);
+    stopRequested.add(context.id);
+    await context.stopCompletion();
+};
+
+export interface SendMessageOptions {
+    messages: ChatMessage[];
+    settings: GenerationSettings;
+    // llama.cpp template name; "auto" or unset uses the template embedded in the GGUF
+    chatTemplate?: string;
+    // Only for models that support toggling reasoning; unset leaves the model's default
+    thinking?: boolean;
+    // Caps the reply when the latest user turn has an image; image answers tend to ramble
+    imageMaxTokens?: number;
+    // Called with the sanitized reply and reasoning so far whenever visible text changes
+    onUpdate?: (state: StreamState) => void;
+}
+
+export const sendMessage = async (context: LlamaContext, { messages, settings, chatTemplate, thinking, imageMaxTokens, onUpdate }: SendMessageOptions): Promise<CompletionOutcome> => {
+    const filter = new StreamFilter([...stopWords, ...settings.stopWords]);
+    let reasoningMs: number | undefined;
+    const startTime = Date.now();
+    let firstTokenAt: number | undefined;
+    let tokenCount = 0;
+
     try {
-        console.log("🚀 Starting completion for message:", message);
-        if (imageUri) {
-            console.log("🖼️  Processing image:", imageUri);
+        const lastUserMessage = [...messages].reverse().find(msg => msg.role === "user");
+        const includesImage = lastUserMessage ? hasImage(lastUserMessage) : false;
+        const maxTokens = includesImage && imageMaxTokens !== undefined ? Math.min(settings.maxTokens, imageMaxTokens) : settings.maxTokens;
+        console.log("🚀 Starting completion for", messages.length, "messages, roles:", messages.map(msg => msg.role));
+        if (includesImage) {
+            console.log("🖼️  Last user turn includes an image, reply capped at", maxTokens, "tokens");
         }
+        console.log("🎛️  Sampling:", settings);
         console.log("⏱️  Starting token generation...");
-        let tokenCount = 0;
-        const startTime = Date.now();
-        
-        // Prepare message content
-        let messageContent: any = message;
         
-        // If we have an image, format it for multimodal input
-        if (imageUri) {
-            console.log("🖼️  Processing image:", imageUri);
-            try {
-                // Use image path directly (no base64 conversion needed)
-                messageContent = [
-                    {
-                        type: "text",
-                        text: message || "What's in this image?"
-                    },
-                    {
-                        type: "image_url",
-                        image_url: {
-                            url: imageUri
-                        }
-                    }
-                ];
-                console.log("📝 Multimodal message with image, content types:", messageContent.map((item: any) => item.type));
-            } catch (error) {
-                console.error("❌ Error processing image:", error);
-                // Fallback to just the image path
-                messageContent = `${message || "What's in this image?"} [IMAGE: ${imageUri}]`;
-            }
-        } else {
-            console.log("📝 Text-only message content:", message);
+        if (stopRequested.has(context.id)) {
+            console.log("⏹️  Stopped before generation started");
+            return toOutcome(filter.end(), measureStream(0, startTime, undefined, "stopped"));
         }
-        
         console.log("🔄 Starting model completion...");
         const msgResult = await context.completion(
             {
-                messages: [
-                    {
-                        role: "user",
-                        content: messageContent,
-                    },
-                ],
-                n_predict: imageUri ? 64 : (maxParams || 2048), // Shorter responses for images
-                stop: stopWords,
-                temperature: 0.7,
-                top_p: 0.9,
-
+                messages: thinking === false ? disableThinking(messages) : messages,
+                enable_thinking: thinking,
+                n_predict: maxTokens,
+                stop: [...stopWords, ...settings.stopWords],
+                temperature: settings.temperature,
+                top_p: settings.top_p,
+                top_k: settings.top_k,
+                min_p: settings.min_p,
+                penalty_repeat: settings.penalty_repeat,
+                seed: settings.seed,
+                chat_template: chatTemplate && chatTemplate !== "auto" ? chatTemplate : undefined,
             },
             (data) => {
                 // Log tokens as they come out in real-time
                 if (data.token) {
                     tokenCount++;
+                    firstTokenAt ??= Date.now();
+                    const before = filter.current;
+                    const state = filter.push(data.token);
+                    if (reasoningMs === undefined && before.thinking && !state.thinking) {
+                        reasoningMs = Date.now() - startTime;
+                    }
                     const elapsed = Date.now() - startTime;
                     console.log(`🔄 TOKEN #${tokenCount} (${elapsed}ms): "${data.token}"`);
                     
-                    // Call the streaming callback if provided
-                    if (onToken) {
-                        onToken(data.token);
+                    // Tokens that are held back or filtered out don't change what the user sees
+                    if (onUpdate && (state.content !== before.content || state.reasoning !== before.reasoning || state.thinking !== before.thinking)) {
+                        onUpdate(state);
                     }
                 }
             },
@@ -145,12 +233,45 @@ export const sendMessage = async (context: LlamaContext, message: string, onToke
         console.log(`✅ Completion finished in ${totalTime}ms with ${tokenCount} tokens`);
         console.log("Response text:", msgResult.text);
         
-        const cleanedText = cleanResponse(msgResult.text || "");
-        console.log("Cleaned response:", cleanedText);
-        
-        return cleanedText || "No response generated";
+        let stopReason: StopReason = "eos";
+        if (msgResult.interrupted || stopRequested.has(context.id)) {
+            stopReason = "stopped";
+        } else if (msgResult.stopped_word) {
+            stopReason = "stop_word";
+        } else if (msgResult.stopped_limit) {
+            stopReason = "limit";
+        }
+
+        // Without a streaming callback nothing went through the filter yet
+        if (tokenCount === 0 && msgResult.text) {
+            filter.push(msgResult.text);
+        }
+        const { timings } = msgResult;
+        const metrics: ResponseMetrics = {
+            promptTokens: timings.prompt_n,
+            generatedTokens: timings.predicted_n || tokenCount,
+            timeToFirstTokenMs: firstTokenAt !== undefined ? firstTokenAt - startTime : undefined,
+            tokensPerSecond: timings.predicted_per_second,
+            promptTokensPerSecond: timings.prompt_n > 0 ? timings.prompt_per_second : undefined,
+            totalMs: totalTime,
+            stopReason
+        };
+        console.log("📊 Metrics:", metrics);
+        const outcome = toOutcome(filter.end(), metrics, reasoningMs ?? totalTime);
+        console.log("Cleaned response:", outcome.text);
+        if (stopReason !== "stopped" && !outcome.text) {
+            outcome.text = "No response generated";
+        }
+        return outcome;
     } catch (error) {
+        // A cancelled completion may reject on some platforms; keep what was streamed so far
+        if (stopRequested.has(context.id)) {
+            console.log("⏹️  Completion stopped by user");
+            return toOutcome(filter.end(), measureStream(tokenCount, startTime, firstTokenAt, "stopped"), reasoningMs ?? Date.now() - startTime);
+        }
         console.error("Error in sendMessage:", error);
         throw error;
+    } finally {
+        stopRequested.delete(context.id);
     }
 };
@@ -0,0 +1,156 @@
+import { Platform } from "react-native";
+import { ModelConfig } from "@/models/catalog";
+
+// KV cache element types llama.rn accepts that are useful on a phone
+export const KV_CACHE_TYPES = ["f16", "q8_0", "q4_0"] as const;
+export type KvCacheType = typeof KV_CACHE_TYPES[number];
+
+// Options passed to initLlama, named as llama.rn names them
+export interface LoadOptions {
+    n_ctx: number;
+    // > 0 enables Metal on iOS; ignored on Android
+    n_gpu_layers: number;
+    // 0 lets llama.rn pick from the number of performance cores
+    n_threads: number;
+    n_batch: number;
+    use_mlock: boolean;
+    use_mmap: boolean;
+    flash_attn: boolean;
+    cache_type_k: KvCacheType;
+    cache_type_v: KvCacheType;
+}
+
+export type LoadOptionsDraft = Record<NumericLoadField["key"], string> & Omit<LoadOptions, NumericLoadField["key"]>;
+
+interface NumericLoadField {
+    key: "n_ctx" | "n_gpu_layers" | "n_threads" | "n_batch";
+    label: string;
+    min: number;
+    max: number;
+}
+
+// Context lengths above this use more memory than most phones can spare, whatever the model allows
+const DEFAULT_CONTEXT_LIMIT = 4096;
+
+export const getLoadFields = (model: ModelConfig): NumericLoadField[] => [
+    { key: "n_ctx", label: "Context Length", min: 256, max: model.maxParams },
+    { key: "n_gpu_layers", label: "GPU Layers", min: 0, max: 999 },
+    { key: "n_threads", label: "Threads (0 = auto)", min: 0, max: 16 },
+    { key: "n_batch", label: "Batch Size", min: 32, max: 4096 }
+];
+
+export const getDefaultLoadOptions = (model: ModelConfig): LoadOptions => ({
+    n_ctx: Math.min(model.maxParams, DEFAULT_CONTEXT_LIMIT),
+    n_gpu_layers: Platform.OS === "ios" ? 1 : 0,
+    n_threads: 0,
+    n_batch: 512,
+    use_mlock: true,
+    use_mmap: true,
+    flash_attn: false,
+    cache_type_k: "f16",
+    cache_type_v: "f16"
+});
+
+// Catalog defaults apply first, then whatever the user changed on this device
+export const resolveLoadOptions = (model: ModelConfig, saved?: Partial<LoadOptions>): LoadOptions => {
+    const options = { ...getDefaultLoadOptions(model), ...model.loadOptions, ...saved };
+    // A catalog update may have shrunk the context the model supports
+    return { ...options, n_ctx: Math.min(options.n_ctx, model.maxParams) };
+};
+
+// Only the options that differ from the defaults are stored, so later default changes still apply
+export const diffLoadOptions = (options: LoadOptions, defaults: LoadOptions): Partial<LoadOptions> | undefined => {
+    const changed = Object.fromEntries(
+        (Object.keys(options) as (keyof LoadOptions)[])
+            .filter(key => options[key] !== defaults[key])
+            .map(key => [key, options[key]])
+    ) as Partial<LoadOptions>;
+    return Object.keys(changed).length > 0 ? changed : undefined;
+};
+
+// Problems with a combination of options that llama.cpp would reject or crash on
+const checkCombination = (options: Partial<LoadOptions>, errors: string[]) => {
+    if (options.cache_type_v !== undefined && options.cache_type_v !== "f16" && !options.flash_attn) {
+        errors.push("A quantized V cache requires flash attention");
+    }
+};
+
+// Check loadOptions from a manifest entry; unknown keys are rejected so typos don't go unnoticed
+export const validateLoadOptions = (value: unknown, maxParams: number, errors: string[]): Partial<LoadOptions> | undefined => {
+    if (value === undefined) {
+        return undefined;
+    }
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        errors.push(`"loadOptions" must be an object`);
+        return undefined;
+    }
+
+    const fields = getLoadFields({ maxParams } as ModelConfig);
+    const options: Partial<LoadOptions> = {};
+    for (const [key, setting] of Object.entries(value)) {
+        const field = fields.find(candidate => candidate.key === key);
+        if (field) {
+            if (!Number.isInteger(setting) || setting < field.min || setting > field.max) {
+                errors.push(`"loadOptions.${key}" must be an integer between ${field.min} and ${field.max}`);
+            } else {
+                options[field.key] = setting;
+            }
+        } else if (key === "use_mlock" || key === "use_mmap" || key === "flash_attn") {
+            if (typeof setting !== "boolean") {
+                errors.push(`"loadOptions.${key}" must be true or false`);
+            } else {
+                options[key] = setting;
+            }
+        } else if (key === "cache_type_k" || key === "cache_type_v") {
+            if (!KV_CACHE_TYPES.includes(setting)) {
+                errors.push(`"loadOptions.${key}" must be one of ${KV_CACHE_TYPES.join(", ")}`);
+            } else {
+                options[key] = setting;
+            }
+        } else {
+            errors.push(`"loadOptions.${key}" is not a supported load option`);
+        }
+    }
+    checkCombination(options, errors);
+    return options;
+};
+
+export const toLoadOptionsDraft = (options: LoadOptions): LoadOptionsDraft => ({
+    ...options,
+    n_ctx: String(options.n_ctx),
+    n_gpu_layers: String(options.n_gpu_layers),
+    n_threads: String(options.n_threads),
+    n_batch: String(options.n_batch)
+});
+
+// Validate the advanced section of the Models tab, returning either options or one message per problem
+export const parseLoadOptionsDraft = (draft: LoadOptionsDraft, model: ModelConfig): { options?: LoadOptions; errors: string[] } => {
+    const errors: string[] = [];
+    const values: Partial<Record<NumericLoadField["key"], number>> = {};
+
+    for (const field of getLoadFields(model)) {
+        const value = Number(draft[field.key].trim());
+        if (!draft[field.key].trim() || !Number.isInteger(value)) {
+            errors.push(`${field.label} must be a whole number`);
+        } else if (value < field.min || value > field.max) {
+            errors.push(`${field.label} must be between ${field.min} and ${field.max}`);
+        } else {
+            values[field.key] = value;
+        }
+    }
+
+    const options: LoadOptions = {
+        n_ctx: values.n_ctx!,
+        n_gpu_layers: values.n_gpu_layers!,
+        n_threads: values.n_threads!,
+        n_batch: values.n_batch!,
+        use_mlock: draft.use_mlock,
+        use_mmap: draft.use_mmap,
+        flash_attn: draft.flash_attn,
+        cache_type_k: draft.cache_type_k,
+        cache_type_v: draft.cache_type_v
+    };
+    checkCombination(options, errors);
+
+    return errors.length > 0 ? { errors } : { options, errors };
+};
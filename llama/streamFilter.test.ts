@@ -0,0 +1,78 @@
+import { StreamFilter } from "./streamFilter";
+
+const STOP_WORDS = ["<|im_end|>", "User:"];
+
+// Feed `chunks` one after another and end the stream
+const run = (chunks: string[], stopWords = STOP_WORDS) => {
+    const filter = new StreamFilter(stopWords);
+    chunks.forEach(chunk => filter.push(chunk));
+    return filter.end();
+};
+
+describe("StreamFilter", () => {
+    it("stops at a stop word split across chunks", () => {
+        const filter = new StreamFilter(STOP_WORDS);
+        expect(filter.push("Hello there<|im_").content).toBe("Hello there");
+        const state = filter.push("end|> and more");
+        expect(state.stopped).toBe(true);
+        expect(state.content).toBe("Hello there");
+        expect(filter.push("ignored").content).toBe("Hello there");
+        expect(filter.end().content).toBe("Hello there");
+    });
+
+    it("holds back a partial special token and drops it once complete", () => {
+        const filter = new StreamFilter(STOP_WORDS);
+        expect(filter.push("Done <|").content).toBe("Done ");
+        expect(filter.push("eot_").content).toBe("Done ");
+        expect(filter.push("id|> next").content).toBe("Done  next");
+        expect(filter.end().stopped).toBe(false);
+    });
+
+    it("releases held text that turns out not to be a special token", () => {
+        const filter = new StreamFilter(STOP_WORDS);
+        expect(filter.push("a <|").content).toBe("a ");
+        expect(filter.push("b").content).toBe("a ");
+        expect(filter.push(" c").content).toBe("a <|b c");
+    });
+
+    it("routes <think> blocks to reasoning wherever the chunks are split", () => {
+        const text = "<think>\nLet me check.\n</think>\n\nThe answer is 4.";
+        for (let first = 0; first <= text.length; first++) {
+            for (let second = first; second <= text.length; second++) {
+                const state = run([text.substring(0, first), text.substring(first, second), text.substring(second)]);
+                expect(state).toEqual({ reasoning: "Let me check.", content: "The answer is 4.", thinking: false, stopped: false });
+            }
+        }
+    });
+
+    it("routes <think> blocks to reasoning when streamed one character at a time", () => {
+        const state = run([..."<think>plan</think>reply"]);
+        expect(state.reasoning).toBe("plan");
+        expect(state.content).toBe("reply");
+    });
+
+    it("treats the reply as reasoning when only </think> is streamed", () => {
+        const state = run(["thinking out loud</th", "ink>\n\nfinal"]);
+        expect(state.reasoning).toBe("thinking out loud");
+        expect(state.content).toBe("final");
+    });
+
+    it("flushes held text at the end of the stream", () => {
+        const filter = new StreamFilter(STOP_WORDS);
+        expect(filter.push("Close the tag with </thi").content).toBe("Close the tag with ");
+        expect(filter.end().content).toBe("Close the tag with </thi");
+    });
+
+    it("drops a half-written template token at the end of the stream", () => {
+        expect(run(["Bye <|im_e"]).content).toBe("Bye");
+    });
+
+    it("lets through text that only looks like the start of a stop word", () => {
+        const filter = new StreamFilter(STOP_WORDS);
+        expect(filter.push("Use").content).toBe("");
+        expect(filter.push("ful").content).toBe("Useful");
+        expect(filter.push(" User").content).toBe("Useful ");
+        expect(filter.push("s agree").content).toBe("Useful Users agree");
+        expect(filter.end()).toEqual({ reasoning: "", content: "Useful Users agree", thinking: false, stopped: false });
+    });
+});
@@ -0,0 +1,150 @@
+// Incremental cleanup of streamed tokens. Text that might be the start of a stop word or special token
+// is held back until it can be told apart, so users never see template markers flash by, and <think>
+// output is routed to its own field as it arrives. The final reply is whatever was streamed.
+
+const THINK_OPEN = "<think>";
+const THINK_CLOSE = "</think>";
+
+// Template tokens that should never be shown: <|im_end|>, DeepSeek's full-width <｜end▁of▁sentence｜>, ...
+const SPECIAL_TOKEN = /<\|[^|<>\s]{1,40}\|>|<｜[^｜<>]{1,40}｜>|REDACTED_SPECIAL_TOKEN|<\/s>/;
+const SPECIAL_TOKEN_OPENERS = ["<|", "<｜"];
+// An unterminated "<|" longer than this is ordinary text
+const MAX_SPECIAL_TOKEN_LENGTH = 48;
+
+export interface StreamState {
+    reasoning: string;
+    content: string;
+    // Inside a <think> block that hasn't been closed yet
+    thinking: boolean;
+    // A stop word arrived; anything after it is discarded
+    stopped: boolean;
+}
+
+interface Marker {
+    index: number;
+    length: number;
+    kind: "stop" | "think_open" | "think_close" | "special";
+}
+
+export class StreamFilter {
+    private pending = "";
+    private state: StreamState = { reasoning: "", content: "", thinking: false, stopped: false };
+    private readonly stopWords: string[];
+    private readonly heldPrefixes: string[];
+
+    constructor(stopWords: string[] = []) {
+        this.stopWords = stopWords.filter(word => word.length > 0);
+        this.heldPrefixes = [...this.stopWords, THINK_OPEN, THINK_CLOSE, "REDACTED_SPECIAL_TOKEN", "</s>"];
+    }
+
+    get current(): StreamState {
+        return { ...this.state };
+    }
+
+    push(token: string): StreamState {
+        if (!this.state.stopped) {
+            this.pending += token;
+            this.drain(false);
+        }
+        return this.current;
+    }
+
+    // Release whatever is still held back once generation has finished
+    end(): StreamState {
+        if (!this.state.stopped) {
+            this.drain(true);
+        }
+        this.state.reasoning = this.state.reasoning.trimEnd();
+        this.state.content = this.state.content.trimEnd();
+        return this.current;
+    }
+
+    private append(text: string) {
+        if (!text) {
+            return;
+        }
+        const field = this.state.thinking ? "reasoning" : "content";
+        // Drop the whitespace models put after <think> and </think>
+        this.state[field] = this.state[field] ? this.state[field] + text : text.trimStart();
+    }
+
+    private findMarker(text: string): Marker | null {
+        let best: Marker | null = null;
+        const consider = (index: number, length: number, kind: Marker["kind"]) => {
+            // On a tie, the earlier-listed kind wins: stop words before the generic token pattern
+            if (index !== -1 && (!best || index < best.index)) {
+                best = { index, length, kind };
+            }
+        };
+
+        for (const word of this.stopWords) {
+            consider(text.indexOf(word), word.length, "stop");
+        }
+        consider(text.indexOf(THINK_OPEN), THINK_OPEN.length, "think_open");
+        consider(text.indexOf(THINK_CLOSE), THINK_CLOSE.length, "think_close");
+        const special = text.match(SPECIAL_TOKEN);
+        if (special && special.index !== undefined) {
+            consider(special.index, special[0].length, "special");
+        }
+        return best;
+    }
+
+    // Index from which the tail of `text` could still grow into a marker
+    private holdIndex(text: string) {
+        for (const opener of SPECIAL_TOKEN_OPENERS) {
+            const start = text.lastIndexOf(opener);
+            if (start !== -1 && text.length - start <= MAX_SPECIAL_TOKEN_LENGTH && !/\s/.test(text.substring(start))) {
+                return start;
+            }
+        }
+
+        for (let start = 0; start < text.length; start++) {
+            const tail = text.substring(start);
+            if (this.heldPrefixes.some(prefix => prefix.length > tail.length && prefix.startsWith(tail))
+                || SPECIAL_TOKEN_OPENERS.some(opener => opener.startsWith(tail))) {
+                return start;
+            }
+        }
+        return text.length;
+    }
+
+    private drain(final: boolean) {
+        let marker = this.findMarker(this.pending);
+        while (marker) {
+            this.append(this.pending.substring(0, marker.index));
+            this.pending = this.pending.substring(marker.index + marker.length);
+
+            switch (marker.kind) {
+                case "stop":
+                    this.state.stopped = true;
+                    this.pending = "";
+                    return;
+                case "think_open":
+                    this.state.thinking = true;
+                    break;
+                case "think_close":
+                    if (!this.state.thinking && !this.state.reasoning) {
+                        // The template opened the block in the prompt, so what we took for the reply was reasoning
+                        this.state.reasoning = this.state.content;
+                        this.state.content = "";
+                    }
+                    this.state.thinking = false;
+                    break;
+            }
+            marker = this.findMarker(this.pending);
+        }
+
+        if (final) {
+            // A half-written template token at the very end is noise, anything else is real text
+            if (!SPECIAL_TOKEN_OPENERS.some(opener => this.pending.startsWith(opener))) {
+                this.append(this.pending);
+            }
+            this.pending = "";
+            return;
+        }
+
+        const hold = this.holdIndex(this.pending);
+        this.append(this.pending.substring(0, hold));
+        this.pending = this.pending.substring(hold);
+    }
+}
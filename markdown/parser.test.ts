@@ -0,0 +1,125 @@
+import { closeOpenSpans, parseInline, parseMarkdown } from "./parser";
+
+const REPLY = [
+    "## Steps",
+    "",
+    "Use **bold** and $x^2$ inline.",
+    "",
+    "1. First",
+    "2. Second",
+    "   - nested",
+    "",
+    "| Name | Cost |",
+    "|:-----|-----:|",
+    "| Tea  | $3   |",
+    "",
+    "```ts",
+    "const a = 1;",
+    "```",
+    "",
+    "$$",
+    "E = mc^2",
+    "$$",
+    "",
+    "> Quoted",
+    "",
+    "---"
+].join("\n");
+
+describe("parseMarkdown", () => {
+    it("parses every prefix of a streamed reply", () => {
+        for (let length = 0; length <= REPLY.length; length++) {
+            expect(() => parseMarkdown(closeOpenSpans(REPLY.substring(0, length)))).not.toThrow();
+        }
+        expect(parseMarkdown(REPLY).map(block => block.type))
+            .toEqual(["heading", "paragraph", "list", "table", "code", "math", "quote", "rule"]);
+    });
+
+    it("keeps the text of an unclosed code fence and marks it open", () => {
+        expect(parseMarkdown("Here:\n```ts\nconst a = 1;")).toEqual([
+            { type: "paragraph", children: [{ type: "text", text: "Here:" }] },
+            { type: "code", language: "ts", code: "const a = 1;", closed: false }
+        ]);
+        expect(parseMarkdown("```\nplain\n```")).toEqual([
+            { type: "code", language: undefined, code: "plain", closed: true }
+        ]);
+    });
+
+    it("shows an unclosed display formula as its source", () => {
+        expect(parseMarkdown("$$\nE = mc^2")).toEqual([
+            { type: "code", language: "latex", code: "E = mc^2", closed: false }
+        ]);
+        expect(parseMarkdown("$$\nE = mc^2\n$$")).toEqual([{ type: "math", tex: "E = mc^2" }]);
+    });
+
+    it("renders a table as soon as its separator row arrives", () => {
+        expect(parseMarkdown("| Name | Cost |")).toEqual([
+            { type: "paragraph", children: [{ type: "text", text: "| Name | Cost |" }] }
+        ]);
+        expect(parseMarkdown("| Name | Cost |\n|:---|--")).toEqual([{
+            type: "table",
+            align: ["left", null],
+            header: [[{ type: "text", text: "Name" }], [{ type: "text", text: "Cost" }]],
+            rows: []
+        }]);
+    });
+
+    it("pads a half-written table row to the header's width", () => {
+        const [table] = parseMarkdown("| Name | Cost |\n|---|---|\n| Tea");
+
+        expect(table).toMatchObject({ type: "table", rows: [[[{ type: "text", text: "Tea" }], []]] });
+    });
+
+    it("keeps a list item that has only its marker so far", () => {
+        expect(parseMarkdown("1. First\n2. ")).toEqual([{
+            type: "list",
+            ordered: true,
+            start: 1,
+            items: [[{ type: "paragraph", children: [{ type: "text", text: "First" }] }], []]
+        }]);
+    });
+
+    it("nests indented lists under their item", () => {
+        const [list] = parseMarkdown("- one\n  - two\n- three");
+
+        expect(list).toMatchObject({ type: "list", ordered: false, items: [
+            [{ type: "paragraph" }, { type: "list", items: [[{ type: "paragraph", children: [{ type: "text", text: "two" }] }]] }],
+            [{ type: "paragraph", children: [{ type: "text", text: "three" }] }]
+        ] });
+    });
+});
+
+describe("parseInline", () => {
+    it("parses inline math", () => {
+        expect(parseInline("Area is $\\pi r^2$ here")).toEqual([
+            { type: "text", text: "Area is " },
+            { type: "math", tex: "\\pi r^2" },
+            { type: "text", text: " here" }
+        ]);
+    });
+
+    it("leaves prices and escaped dollars as text", () => {
+        expect(parseInline("It costs $5 and $10")).toEqual([{ type: "text", text: "It costs $5 and $10" }]);
+        expect(parseInline("\\$x$ stays literal")).toEqual([{ type: "text", text: "$x$ stays literal" }]);
+    });
+
+    it("leaves unclosed markers as text", () => {
+        expect(parseInline("a **half and `tick")).toEqual([{ type: "text", text: "a **half and `tick" }]);
+    });
+});
+
+describe("closeOpenSpans", () => {
+    it("closes emphasis and code left open on the last line", () => {
+        expect(closeOpenSpans("Some **bold")).toBe("Some **bold**");
+        expect(closeOpenSpans("Run `npm")).toBe("Run `npm`");
+        expect(closeOpenSpans("*em and **strong")).toBe("*em and **strong***");
+    });
+
+    it("leaves text inside an open code fence alone", () => {
+        expect(closeOpenSpans("```\nconst **a")).toBe("```\nconst **a");
+    });
+
+    it("doesn't open a span for a marker followed by a space", () => {
+        expect(closeOpenSpans("2 * 3")).toBe("2 * 3");
+    });
+});
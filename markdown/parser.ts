@@ -0,0 +1,472 @@
+// Small Markdown parser for model replies. It is forgiving by design: replies arrive a token at a
+// time, so unclosed fences, half-written tables and dangling markers must still produce a sensible tree.
+
+export type Inline =
+    | { type: "text"; text: string }
+    | { type: "strong"; children: Inline[] }
+    | { type: "em"; children: Inline[] }
+    | { type: "strike"; children: Inline[] }
+    | { type: "code"; text: string }
+    | { type: "link"; href: string; children: Inline[] }
+    | { type: "math"; tex: string };
+
+export type TableAlign = "left" | "center" | "right" | null;
+
+export type Block =
+    | { type: "paragraph"; children: Inline[] }
+    | { type: "heading"; level: number; children: Inline[] }
+    | { type: "code"; language?: string; code: string; closed: boolean }
+    | { type: "math"; tex: string }
+    | { type: "list"; ordered: boolean; start: number; items: Block[][] }
+    | { type: "table"; align: TableAlign[]; header: Inline[][]; rows: Inline[][][] }
+    | { type: "quote"; children: Block[] }
+    | { type: "rule" };
+
+const FENCE = /^\s*(`{3,}|~{3,})\s*([^\s`]*)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^\s{0,3}>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const ESCAPABLE = /[\\`*_{}[\]()#+\-.!|$~>]/;
+const AUTOLINK = /^https?:\/\/[^\s<>]*[^\s<>.,;:!?'")\]]/;
+
+const indentOf = (line: string) => {
+    let width = 0;
+    for (const ch of line) {
+        if (ch === " ") width++;
+        else if (ch === "\t") width += 4;
+        else break;
+    }
+    return width;
+};
+
+const stripIndent = (line: string, width: number) => {
+    let removed = 0;
+    let i = 0;
+    while (i < line.length && removed < width && (line[i] === " " || line[i] === "\t")) {
+        removed += line[i] === "\t" ? 4 : 1;
+        i++;
+    }
+    return line.substring(i);
+};
+
+const startsBlock = (line: string) =>
+    FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || line.trim().startsWith("$$");
+
+const isOrdered = (marker: string) => /\d/.test(marker);
+
+// ---- Inline ----
+
+const findClosing = (text: string, delimiter: string, from: number) => {
+    for (let i = from; i < text.length; i++) {
+        if (text[i] === "\\") {
+            i++;
+            continue;
+        }
+        if (text.startsWith(delimiter, i)) {
+            // A single * must not match half of a ** pair
+            if (delimiter.length === 1 && text[i + 1] === delimiter) {
+                i++;
+                continue;
+            }
+            // Closing markers hug the text they wrap
+            if (i > from && !/\s/.test(text[i - 1])) {
+                return i;
+            }
+        }
+    }
+    return -1;
+};
+
+const findLinkEnd = (text: string, start: number) => {
+    let depth = 0;
+    for (let i = start; i < text.length; i++) {
+        if (text[i] === "\\") {
+            i++;
+        } else if (text[i] === "[") {
+            depth++;
+        } else if (text[i] === "]") {
+            if (depth === 0) return i;
+            depth--;
+        }
+    }
+    return -1;
+};
+
+export const parseInline = (text: string): Inline[] => {
+    const nodes: Inline[] = [];
+    let buffer = "";
+
+    const flush = () => {
+        if (buffer) {
+            nodes.push({ type: "text", text: buffer });
+            buffer = "";
+        }
+    };
+
+    let i = 0;
+    while (i < text.length) {
+        const ch = text[i];
+        const next = text[i + 1];
+
+        if (ch === "\\" && next !== undefined && ESCAPABLE.test(next)) {
+            buffer += next;
+            i += 2;
+            continue;
+        }
+
+        if (ch === "`") {
+            let run = 1;
+            while (text[i + run] === "`") run++;
+            const fence = "`".repeat(run);
+            const end = text.indexOf(fence, i + run);
+            if (end !== -1) {
+                flush();
+                nodes.push({ type: "code", text: text.substring(i + run, end).trim() || text.substring(i + run, end) });
+                i = end + run;
+                continue;
+            }
+            buffer += fence;
+            i += run;
+            continue;
+        }
+
+        if (ch === "$") {
+            const display = next === "$";
+            const open = display ? 2 : 1;
+            const body = text[i + open];
+            // "$5 and $10" stays text: math must not start with a space or end right before a digit
+            if (body !== undefined && !/\s/.test(body)) {
+                const end = findClosing(text, display ? "$$" : "$", i + open);
+                if (end !== -1 && (display || !/\d/.test(text[end + 1] ?? ""))) {
+                    flush();
+                    nodes.push({ type: "math", tex: text.substring(i + open, end) });
+                    i = end + open;
+                    continue;
+                }
+            }
+            buffer += display ? "$$" : "$";
+            i += open;
+            continue;
+        }
+
+        if (ch === "*" || (ch === "_" && !/\w/.test(text[i - 1] ?? ""))) {
+            const strong = next === ch;
+            const delimiter = strong ? ch + ch : ch;
+            const body = text[i + delimiter.length];
+            if (body !== undefined && !/\s/.test(body)) {
+                const end = findClosing(text, delimiter, i + delimiter.length);
+                if (end !== -1 && (ch === "*" || !/\w/.test(text[end + delimiter.length] ?? ""))) {
+                    flush();
+                    nodes.push({
+                        type: strong ? "strong" : "em",
+                        children: parseInline(text.substring(i + delimiter.length, end))
+                    });
+                    i = end + delimiter.length;
+                    continue;
+                }
+            }
+            buffer += delimiter;
+            i += delimiter.length;
+            continue;
+        }
+
+        if (ch === "~" && next === "~") {
+            const end = findClosing(text, "~~", i + 2);
+            if (end !== -1) {
+                flush();
+                nodes.push({ type: "strike", children: parseInline(text.substring(i + 2, end)) });
+                i = end + 2;
+                continue;
+            }
+        }
+
+        if (ch === "[") {
+            const labelEnd = findLinkEnd(text, i + 1);
+            if (labelEnd !== -1 && text[labelEnd + 1] === "(") {
+                const hrefEnd = text.indexOf(")", labelEnd + 2);
+                if (hrefEnd !== -1) {
+                    flush();
+                    const href = text.substring(labelEnd + 2, hrefEnd).trim().split(/\s+/)[0];
+                    nodes.push({ type: "link", href, children: parseInline(text.substring(i + 1, labelEnd)) });
+                    i = hrefEnd + 1;
+                    continue;
+                }
+            }
+        }
+
+        if (ch === "<") {
+            const end = text.indexOf(">", i);
+            const inner = end !== -1 ? text.substring(i + 1, end) : "";
+            if (/^(https?:\/\/|mailto:)\S+$/.test(inner)) {
+                flush();
+                nodes.push({ type: "link", href: inner, children: [{ type: "text", text: inner.replace(/^mailto:/, "") }] });
+                i = end + 1;
+                continue;
+            }
+        }
+
+        if (ch === "h" && !/\w/.test(text[i - 1] ?? "")) {
+            const match = text.substring(i).match(AUTOLINK);
+            if (match) {
+                flush();
+                nodes.push({ type: "link", href: match[0], children: [{ type: "text", text: match[0] }] });
+                i += match[0].length;
+                continue;
+            }
+        }
+
+        buffer += ch;
+        i++;
+    }
+
+    flush();
+    return nodes;
+};
+
+// ---- Blocks ----
+
+const splitRow = (line: string) => {
+    let row = line.trim();
+    if (row.startsWith("|")) row = row.substring(1);
+    if (row.endsWith("|") && !row.endsWith("\\|")) row = row.substring(0, row.length - 1);
+
+    const cells: string[] = [];
+    let cell = "";
+    let inCode = false;
+    for (let i = 0; i < row.length; i++) {
+        if (row[i] === "\\" && row[i + 1] === "|") {
+            cell += "|";
+            i++;
+        } else if (row[i] === "`") {
+            inCode = !inCode;
+            cell += "`";
+        } else if (row[i] === "|" && !inCode) {
+            cells.push(cell.trim());
+            cell = "";
+        } else {
+            cell += row[i];
+        }
+    }
+    cells.push(cell.trim());
+    return cells;
+};
+
+const parseAlign = (cell: string): TableAlign => {
+    const left = cell.startsWith(":");
+    const right = cell.endsWith(":");
+    if (left && right) return "center";
+    if (right) return "right";
+    if (left) return "left";
+    return null;
+};
+
+const parseList = (lines: string[], start: number): [Block, number] => {
+    const first = lines[start].match(LIST_ITEM)!;
+    const baseIndent = indentOf(first[1]);
+    const ordered = isOrdered(first[2]);
+    const items: Block[][] = [];
+
+    const isSibling = (line: string) => {
+        const match = line.match(LIST_ITEM);
+        return !!match && indentOf(match[1]) <= baseIndent + 1 && indentOf(match[1]) >= baseIndent && isOrdered(match[2]) === ordered;
+    };
+
+    let i = start;
+    while (i < lines.length && isSibling(lines[i])) {
+        const match = lines[i].match(LIST_ITEM)!;
+        const contentIndent = indentOf(match[1]) + match[2].length + 1;
+        const itemLines = [match[3]];
+        i++;
+
+        while (i < lines.length) {
+            const line = lines[i];
+            if (!line.trim()) {
+                let j = i + 1;
+                while (j < lines.length && !lines[j].trim()) j++;
+                if (j < lines.length && indentOf(lines[j]) > baseIndent && !isSibling(lines[j])) {
+                    itemLines.push(...lines.slice(i, j).map(() => ""));
+                    i = j;
+                    continue;
+                }
+                // Blank lines between items keep the list going
+                if (j < lines.length && isSibling(lines[j])) {
+                    i = j;
+                }
+                break;
+            }
+
+            if (isSibling(line)) {
+                break;
+            }
+            if (indentOf(line) <= baseIndent) {
+                // Lazy continuation: unindented text still belongs to the item's paragraph
+                if (LIST_ITEM.test(line) || startsBlock(line)) {
+                    break;
+                }
+                itemLines.push(line.trim());
+            } else {
+                itemLines.push(stripIndent(line, Math.min(indentOf(line), contentIndent)));
+            }
+            i++;
+        }
+
+        items.push(parseBlocks(itemLines));
+    }
+
+    return [{ type: "list", ordered, start: ordered ? parseInt(first[2], 10) : 1, items }, i];
+};
+
+const parseBlocks = (lines: string[]): Block[] => {
+    const blocks: Block[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+        const line = lines[i];
+        if (!line.trim()) {
+            i++;
+            continue;
+        }
+
+        const fence = line.match(FENCE);
+        if (fence) {
+            const marker = fence[1];
+            const indent = indentOf(line);
+            const codeLines: string[] = [];
+            let closed = false;
+            i++;
+            while (i < lines.length) {
+                const trimmed = lines[i].trim();
+                if (trimmed.startsWith(marker) && trimmed.replace(/[`~]/g, "") === "") {
+                    closed = true;
+                    i++;
+                    break;
+                }
+                codeLines.push(stripIndent(lines[i], indent));
+                i++;
+            }
+            blocks.push({ type: "code", language: fence[2] || undefined, code: codeLines.join("\n"), closed });
+            continue;
+        }
+
+        if (line.trim().startsWith("$$")) {
+            const rest = line.trim().substring(2);
+            const sameLineEnd = rest.indexOf("$$");
+            if (sameLineEnd !== -1) {
+                blocks.push({ type: "math", tex: rest.substring(0, sameLineEnd).trim() });
+                i++;
+                continue;
+            }
+            let end = i + 1;
+            while (end < lines.length && !lines[end].includes("$$")) end++;
+            if (end < lines.length) {
+                const closing = lines[end].substring(0, lines[end].indexOf("$$"));
+                blocks.push({ type: "math", tex: [rest, ...lines.slice(i + 1, end), closing].join("\n").trim() });
+                i = end + 1;
+                continue;
+            }
+            // Still streaming: show the formula source until the closing $$ arrives
+            blocks.push({ type: "code", language: "latex", code: [rest, ...lines.slice(i + 1)].join("\n").trim(), closed: false });
+            break;
+        }
+
+        const heading = line.match(HEADING);
+        if (heading) {
+            blocks.push({ type: "heading", level: heading[1].length, children: parseInline(heading[2]) });
+            i++;
+            continue;
+        }
+
+        if (RULE.test(line)) {
+            blocks.push({ type: "rule" });
+            i++;
+            continue;
+        }
+
+        if (QUOTE.test(line)) {
+            const quoted: string[] = [];
+            while (i < lines.length && lines[i].trim() && (QUOTE.test(lines[i]) || !startsBlock(lines[i]))) {
+                quoted.push(lines[i].replace(QUOTE, ""));
+                i++;
+            }
+            blocks.push({ type: "quote", children: parseBlocks(quoted) });
+            continue;
+        }
+
+        if (line.includes("|") && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1]) && lines[i + 1].includes("-")) {
+            const header = splitRow(line);
+            const align = splitRow(lines[i + 1]).map(parseAlign);
+            const rows: Inline[][][] = [];
+            i += 2;
+            while (i < lines.length && lines[i].trim() && lines[i].includes("|")) {
+                const cells = splitRow(lines[i]);
+                rows.push(header.map((_, column) => parseInline(cells[column] ?? "")));
+                i++;
+            }
+            blocks.push({ type: "table", align: header.map((_, column) => align[column] ?? null), header: header.map(cell => parseInline(cell)), rows });
+            continue;
+        }
+
+        if (LIST_ITEM.test(line)) {
+            const [list, next] = parseList(lines, i);
+            blocks.push(list);
+            i = next;
+            continue;
+        }
+
+        // Paragraph: single newlines are kept as line breaks, which is how models format chat replies
+        const paragraph: string[] = [];
+        while (i < lines.length && lines[i].trim() && !startsBlock(lines[i]) && !LIST_ITEM.test(lines[i])) {
+            if (paragraph.length > 0 && lines[i].includes("|") && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1])) {
+                break;
+            }
+            paragraph.push(lines[i].trim());
+            i++;
+        }
+        if (paragraph.length === 0) {
+            // A line that looks like a block start but didn't parse as one; keep it as text
+            paragraph.push(lines[i].trim());
+            i++;
+        }
+        blocks.push({ type: "paragraph", children: parseInline(paragraph.join("\n")) });
+    }
+
+    return blocks;
+};
+
+// While a reply is streaming, close emphasis and code spans left open on the last line so they
+// render styled straight away instead of flashing raw markers until the closing token arrives.
+export const closeOpenSpans = (text: string) => {
+    const fences = text.split("\n").filter(line => FENCE.test(line)).length;
+    if (fences % 2 === 1) {
+        return text;
+    }
+
+    const lastLine = text.substring(text.lastIndexOf("\n") + 1);
+    const open: string[] = [];
+    for (let i = 0; i < lastLine.length; i++) {
+        const ch = lastLine[i];
+        const top = open[open.length - 1];
+        if (ch === "\\") {
+            i++;
+        } else if (ch === "`") {
+            if (top === "`") open.pop();
+            else open.push("`");
+        } else if (top === "`") {
+            continue;
+        } else if (ch === "*" || (ch === "~" && lastLine[i + 1] === "~")) {
+            const delimiter = lastLine[i + 1] === ch ? ch + ch : ch;
+            if (top === delimiter) {
+                open.pop();
+            } else if (lastLine[i + delimiter.length] !== undefined && !/\s/.test(lastLine[i + delimiter.length])) {
+                open.push(delimiter);
+            }
+            i += delimiter.length - 1;
+        }
+    }
+
+    return open.length > 0 ? text + open.reverse().join("") : text;
+};
+
+export const parseMarkdown = (text: string): Block[] => parseBlocks(text.replace(/\r\n?/g, "\n").split("\n"));
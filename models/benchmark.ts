@@ -0,0 +1,233 @@
+import * as Device from "expo-device";
+import * as FileSystem from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import { LlamaContext } from "llama.rn";
+import { ChatMessage, loadModel, stopWords } from "@/llama/llama.config";
+import { LoadOptions, resolveLoadOptions } from "@/llama/loadOptions";
+import { getMmprojPath, getModelPath, hasMmproj, ModelConfig } from "./catalog";
+import { estimateModelMemory } from "./deviceProfile";
+import { loadModelSettings } from "./modelSettings";
+import { runWithoutActiveModel } from "./modelLifecycle";
+
+interface BenchmarkPrompt {
+    id: string;
+    messages: ChatMessage[];
+    maxTokens: number;
+}
+
+// Fixed prompts and seed so runs on different devices and models do the same work
+const BENCHMARK_PROMPTS: BenchmarkPrompt[] = [
+    {
+        id: "short-answer",
+        messages: [{ role: "user", content: "Explain in a few sentences why the sky is blue." }],
+        maxTokens: 128
+    },
+    {
+        id: "summarize",
+        messages: [{
+            role: "user",
+            content: "Summarize the following text in three bullet points.\n\n" +
+                "The printing press, developed by Johannes Gutenberg around 1440, changed how information spread across Europe. " +
+                "Before it, books were copied by hand, which made them rare and expensive. Movable metal type allowed pages to be " +
+                "composed quickly and printed in large numbers. Within decades, print shops had opened in more than two hundred " +
+                "cities. Literacy rose as books became affordable, scientific results could be shared and checked by readers far " +
+                "away, and religious and political pamphlets reached audiences that authorities could no longer easily control. " +
+                "Historians often link the press to the Renaissance, the Reformation and the Scientific Revolution, although each " +
+                "of these had other causes as well. The technology itself changed little for centuries until steam-powered presses " +
+                "and, later, offset printing made mass newspapers possible."
+        }],
+        maxTokens: 128
+    },
+    {
+        id: "code",
+        messages: [{ role: "user", content: "Write a TypeScript function that returns the n-th Fibonacci number iteratively." }],
+        maxTokens: 192
+    }
+];
+
+const BENCHMARK_SEED = 42;
+const BENCHMARK_TEMPERATURE = 0.7;
+
+export interface PromptResult {
+    promptId: string;
+    promptTokens: number;
+    generatedTokens: number;
+    promptTokensPerSecond: number;
+    tokensPerSecond: number;
+}
+
+export interface ModelBenchmark {
+    modelId: string;
+    modelName: string;
+    quantization: string;
+    loadOptions: LoadOptions;
+    gpu?: boolean;
+    loadMs?: number;
+    // Averages over the prompts
+    promptTokensPerSecond?: number;
+    tokensPerSecond?: number;
+    // Not measured: apps can't read their own memory use from JS, so this is estimateModelMemory's
+    // figure for the weights, KV cache and buffers the model was loaded with
+    estimatedMemoryBytes?: number;
+    prompts: PromptResult[];
+    error?: string;
+}
+
+export interface BenchmarkRun {
+    id: string;
+    startedAt: number;
+    finishedAt: number;
+    device: {
+        modelName: string | null;
+        osName: string | null;
+        osVersion: string | null;
+        totalMemoryBytes: number | null;
+    };
+    results: ModelBenchmark[];
+    cancelled?: boolean;
+}
+
+const MAX_SAVED_RUNS = 20;
+
+const RUNS_PATH = () => FileSystem.documentDirectory + "benchmarks.json";
+
+export const loadBenchmarkRuns = async (): Promise<BenchmarkRun[]> => {
+    const info = await FileSystem.getInfoAsync(RUNS_PATH());
+    if (!info.exists) {
+        return [];
+    }
+    try {
+        const runs: BenchmarkRun[] = JSON.parse(await FileSystem.readAsStringAsync(RUNS_PATH()));
+        // Runs saved before the figure was named as an estimate
+        return runs.map(run => ({
+            ...run,
+            results: run.results.map(({ peakMemoryBytes, ...result }: ModelBenchmark & { peakMemoryBytes?: number }) => ({
+                ...result,
+                estimatedMemoryBytes: result.estimatedMemoryBytes ?? peakMemoryBytes
+            }))
+        }));
+    } catch (error) {
+        console.error("Error reading benchmark results:", error);
+        return [];
+    }
+};
+
+const saveBenchmarkRun = async (run: BenchmarkRun) => {
+    const runs = [run, ...await loadBenchmarkRuns()].slice(0, MAX_SAVED_RUNS);
+    await FileSystem.writeAsStringAsync(RUNS_PATH(), JSON.stringify(runs));
+    return runs;
+};
+
+export const deleteBenchmarkRun = async (id: string) => {
+    const runs = (await loadBenchmarkRuns()).filter(run => run.id !== id);
+    await FileSystem.writeAsStringAsync(RUNS_PATH(), JSON.stringify(runs));
+    return runs;
+};
+
+// Hand the run to the share sheet as a .json file so results from several phones can be collected
+export const exportBenchmarkRun = async (run: BenchmarkRun) => {
+    const path = `${FileSystem.cacheDirectory}benchmark_${run.id}.json`;
+    const exported = {
+        ...run,
+        notes: {
+            estimatedMemoryBytes: "Estimated from the model size and load options, not measured on the device"
+        }
+    };
+    await FileSystem.writeAsStringAsync(path, JSON.stringify(exported, null, 2));
+    await Sharing.shareAsync(path, { mimeType: "application/json", UTI: "public.json", dialogTitle: "Export Benchmark" });
+};
+
+const average = (values: number[]) =>
+    values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : undefined;
+
+export interface BenchmarkControl {
+    onStatus: (status: string) => void;
+    isCancelled: () => boolean;
+}
+
+const runPrompts = async (context: LlamaContext, model: ModelConfig, control: BenchmarkControl): Promise<PromptResult[]> => {
+    const results: PromptResult[] = [];
+    for (const [index, prompt] of BENCHMARK_PROMPTS.entries()) {
+        if (control.isCancelled()) {
+            break;
+        }
+        control.onStatus(`${model.name}: prompt ${index + 1} of ${BENCHMARK_PROMPTS.length}`);
+        const result = await context.completion({
+            messages: prompt.messages,
+            n_predict: prompt.maxTokens,
+            seed: BENCHMARK_SEED,
+            temperature: BENCHMARK_TEMPERATURE,
+            stop: stopWords,
+            // Reasoning models would otherwise spend the whole budget thinking
+            enable_thinking: model.thinking ? false : undefined,
+            chat_template: model.chatTemplate !== "auto" ? model.chatTemplate : undefined
+        });
+        results.push({
+            promptId: prompt.id,
+            promptTokens: result.timings.prompt_n,
+            generatedTokens: result.timings.predicted_n,
+            promptTokensPerSecond: result.timings.prompt_per_second,
+            tokensPerSecond: result.timings.predicted_per_second
+        });
+    }
+    return results;
+};
+
+const benchmarkModel = async (model: ModelConfig, control: BenchmarkControl): Promise<ModelBenchmark> => {
+    const loadOptions = resolveLoadOptions(model, (await loadModelSettings(model.id)).loadOptions);
+    const benchmark: ModelBenchmark = {
+        modelId: model.id,
+        modelName: model.name,
+        quantization: model.quantization,
+        loadOptions,
+        prompts: []
+    };
+
+    control.onStatus(`Loading ${model.name}...`);
+    const loadStart = Date.now();
+    let context: LlamaContext | null = null;
+    try {
+        context = await loadModel(getModelPath(model), hasMmproj(model) ? getMmprojPath(model) : undefined, loadOptions);
+        benchmark.loadMs = Date.now() - loadStart;
+        benchmark.gpu = context.gpu;
+        benchmark.estimatedMemoryBytes = estimateModelMemory(model, loadOptions);
+
+        benchmark.prompts = await runPrompts(context, model, control);
+        benchmark.promptTokensPerSecond = average(benchmark.prompts.map(prompt => prompt.promptTokensPerSecond));
+        benchmark.tokensPerSecond = average(benchmark.prompts.map(prompt => prompt.tokensPerSecond));
+    } catch (error) {
+        console.error("Benchmark failed for", model.name, error);
+        benchmark.error = error instanceof Error ? error.message : String(error);
+    } finally {
+        await context?.release().catch(error => console.error("Error releasing benchmark context:", error));
+    }
+    return benchmark;
+};
+
+// Load each model in turn, run the fixed prompts and save the run. The active model is unloaded
+// for the duration.
+export const runBenchmark = (models: ModelConfig[], control: BenchmarkControl) => runWithoutActiveModel(async () => {
+    const run: BenchmarkRun = {
+        id: `bench_${Date.now()}`,
+        startedAt: Date.now(),
+        finishedAt: 0,
+        device: {
+            modelName: Device.modelName,
+            osName: Device.osName,
+            osVersion: Device.osVersion,
+            totalMemoryBytes: Device.totalMemory
+        },
+        results: []
+    };
+
+    for (const model of models) {
+        if (control.isCancelled()) {
+            break;
+        }
+        run.results.push(await benchmarkModel(model, control));
+    }
+
+    run.finishedAt = Date.now();
+    run.cancelled = control.isCancelled() || undefined;
+    return { run, runs: await saveBenchmarkRun(run) };
+});
@@ -0,0 +1,313 @@
+import * as FileSystem from "expo-file-system";
+import Constants from "expo-constants";
+import { LoadOptions, validateLoadOptions } from "@/llama/loadOptions";
+import bundledManifest from "./manifest.json";
+
+export interface SamplingDefaults {
+    temperature: number;
+    top_p: number;
+    top_k?: number;
+    min_p?: number;
+    penalty_repeat?: number;
+}
+
+export interface ModelConfig {
+    id: string;
+    name: string;
+    description: string;
+    url: string;
+    mmprojUrl?: string;
+    sizeGB: number;
+    mmprojSizeGB?: number;
+    // Exact byte counts and checksums let downloads be verified before install
+    sizeBytes?: number;
+    sha256?: string;
+    mmprojSizeBytes?: number;
+    mmprojSha256?: string;
+    quantization: string;
+    maxParams: number;
+    chatTemplate: string;
+    vision: boolean;
+    // Longest image side, in pixels, the vision projector works best with
+    imageResolution?: number;
+    // Emits <think> reasoning that the user can switch off (Qwen3's /no_think)
+    thinking?: boolean;
+    recommended: boolean;
+    sampling: SamplingDefaults;
+    // Runtime defaults for this model; the user can override them per device
+    loadOptions?: Partial<LoadOptions>;
+    // Side-loaded from device storage rather than listed in a manifest
+    imported?: boolean;
+}
+
+export interface ModelCatalog {
+    models: ModelConfig[];
+    errors: string[];
+}
+
+const SUPPORTED_MANIFEST_VERSION = 1;
+
+const QUANTIZATIONS = [
+    "F32", "F16", "BF16", "Q8_0", "Q6_K", "Q5_K_M", "Q5_K_S", "Q5_0", "Q5_1",
+    "Q4_K_M", "Q4_K_S", "Q4_0", "Q4_1", "IQ4_NL", "IQ4_XS", "Q3_K_M", "Q3_K_S", "Q3_K_L", "Q2_K"
+];
+
+// Built-in llama.cpp template names; "auto" uses the template embedded in the GGUF
+const CHAT_TEMPLATES = ["auto", "chatml", "phi3", "llama3", "llama2", "gemma", "mistral-v7", "deepseek3"];
+
+export const DEFAULT_SAMPLING: SamplingDefaults = {
+    temperature: 0.7,
+    top_p: 0.9
+};
+
+export const getModelPath = (model: Pick<ModelConfig, "id">) => FileSystem.documentDirectory + `model_${model.id}.gguf`;
+
+export const getMmprojPath = (model: Pick<ModelConfig, "id">) => FileSystem.documentDirectory + `mmproj_${model.id}.gguf`;
+
+// Catalog models download a projector from mmprojUrl; imported vision models bring their own
+export const hasMmproj = (model: ModelConfig) => !!model.mmprojUrl || (!!model.imported && model.vision);
+
+const CACHED_MANIFEST_PATH = () => FileSystem.documentDirectory + "model_manifest.json";
+
+export const getManifestUrl = (): string | undefined => {
+    const url = Constants.expoConfig?.extra?.modelManifestUrl;
+    return typeof url === "string" && url.trim() ? url.trim() : undefined;
+};
+
+type Entry = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is Entry =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isPositiveNumber = (value: unknown): value is number =>
+    typeof value === "number" && Number.isFinite(value) && value > 0;
+
+const isSha256 = (value: unknown): value is string =>
+    typeof value === "string" && /^[a-f0-9]{64}$/i.test(value);
+
+const isHttpsUrl = (value: unknown): value is string =>
+    typeof value === "string" && /^https:\/\/\S+$/.test(value);
+
+const validateSampling = (value: unknown, errors: string[]): SamplingDefaults => {
+    if (value === undefined) {
+        return DEFAULT_SAMPLING;
+    }
+    if (!isRecord(value)) {
+        errors.push(`"sampling" must be an object`);
+        return DEFAULT_SAMPLING;
+    }
+
+    const ranges: Record<keyof SamplingDefaults, [number, number]> = {
+        temperature: [0, 2],
+        top_p: [0, 1],
+        top_k: [0, 1000],
+        min_p: [0, 1],
+        penalty_repeat: [0, 2]
+    };
+
+    const sampling: SamplingDefaults = { ...DEFAULT_SAMPLING };
+    for (const [key, [min, max]] of Object.entries(ranges) as [keyof SamplingDefaults, [number, number]][]) {
+        const setting = value[key];
+        if (setting === undefined) {
+            continue;
+        }
+        if (typeof setting !== "number" || !Number.isFinite(setting) || setting < min || setting > max) {
+            errors.push(`"sampling.${key}" must be a number between ${min} and ${max}`);
+            continue;
+        }
+        sampling[key] = setting;
+    }
+    return sampling;
+};
+
+// Check one manifest entry, collecting every problem rather than stopping at the first
+export const validateManifestEntry = (value: unknown): { model?: ModelConfig; errors: string[] } => {
+    const errors: string[] = [];
+    if (!isRecord(value)) {
+        return { errors: ["entry must be an object"] };
+    }
+
+    const requireString = (key: string) => {
+        const field = value[key];
+        if (typeof field !== "string" || !field.trim()) {
+            errors.push(`"${key}" must be a non-empty string`);
+            return "";
+        }
+        return field.trim();
+    };
+
+    const id = requireString("id");
+    if (id && !/^[a-z0-9._-]+$/.test(id)) {
+        errors.push(`"id" may only contain lowercase letters, digits, ".", "_" and "-"`);
+    }
+    const name = requireString("name");
+    const description = typeof value.description === "string" ? value.description : "";
+
+    if (!isHttpsUrl(value.url)) {
+        errors.push(`"url" must be an https URL`);
+    } else if (!/\.gguf(\?.*)?$/i.test(value.url)) {
+        errors.push(`"url" must point to a .gguf file`);
+    }
+    if (value.mmprojUrl !== undefined && !isHttpsUrl(value.mmprojUrl)) {
+        errors.push(`"mmprojUrl" must be an https URL`);
+    }
+
+    if (!isPositiveNumber(value.sizeGB)) {
+        errors.push(`"sizeGB" must be a positive number`);
+    }
+    if (value.mmprojSizeGB !== undefined && !isPositiveNumber(value.mmprojSizeGB)) {
+        errors.push(`"mmprojSizeGB" must be a positive number`);
+    }
+    for (const key of ["sizeBytes", "mmprojSizeBytes"]) {
+        if (value[key] !== undefined && (!Number.isInteger(value[key]) || (value[key] as number) <= 0)) {
+            errors.push(`"${key}" must be a positive integer`);
+        }
+    }
+    for (const key of ["sha256", "mmprojSha256"]) {
+        if (value[key] !== undefined && !isSha256(value[key])) {
+            errors.push(`"${key}" must be a 64-character hex SHA-256 digest`);
+        }
+    }
+    if (!Number.isInteger(value.maxParams) || (value.maxParams as number) < 256) {
+        errors.push(`"maxParams" must be an integer context length of at least 256`);
+    }
+
+    const quantization = requireString("quantization").toUpperCase();
+    if (quantization && !QUANTIZATIONS.includes(quantization)) {
+        errors.push(`"quantization" "${quantization}" is not one of ${QUANTIZATIONS.join(", ")}`);
+    }
+
+    const chatTemplate = value.chatTemplate === undefined ? "auto" : value.chatTemplate;
+    if (typeof chatTemplate !== "string" || !CHAT_TEMPLATES.includes(chatTemplate)) {
+        errors.push(`"chatTemplate" must be one of ${CHAT_TEMPLATES.join(", ")}`);
+    }
+
+    const vision = value.vision === undefined ? false : value.vision;
+    if (typeof vision !== "boolean") {
+        errors.push(`"vision" must be true or false`);
+    } else if (vision && value.mmprojUrl === undefined) {
+        errors.push(`"vision" models must provide an "mmprojUrl"`);
+    }
+
+    if (value.imageResolution !== undefined
+        && (!Number.isInteger(value.imageResolution) || (value.imageResolution as number) < 112 || (value.imageResolution as number) > 4096)) {
+        errors.push(`"imageResolution" must be an integer between 112 and 4096`);
+    }
+
+    if (value.thinking !== undefined && typeof value.thinking !== "boolean") {
+        errors.push(`"thinking" must be true or false`);
+    }
+
+    const sampling = validateSampling(value.sampling, errors);
+    const loadOptions = validateLoadOptions(value.loadOptions, value.maxParams as number, errors);
+
+    if (errors.length > 0) {
+        return { errors };
+    }
+
+    return {
+        errors,
+        model: {
+            id,
+            name,
+            description,
+            url: value.url as string,
+            mmprojUrl: value.mmprojUrl as string | undefined,
+            sizeGB: value.sizeGB as number,
+            mmprojSizeGB: value.mmprojSizeGB as number | undefined,
+            sizeBytes: value.sizeBytes as number | undefined,
+            sha256: (value.sha256 as string | undefined)?.toLowerCase(),
+            mmprojSizeBytes: value.mmprojSizeBytes as number | undefined,
+            mmprojSha256: (value.mmprojSha256 as string | undefined)?.toLowerCase(),
+            quantization,
+            maxParams: value.maxParams as number,
+            chatTemplate: chatTemplate as string,
+            vision: vision as boolean,
+            imageResolution: value.imageResolution as number | undefined,
+            thinking: value.thinking === true,
+            recommended: value.recommended === true,
+            sampling,
+            loadOptions
+        }
+    };
+};
+
+export const parseManifest = (manifest: unknown, source: string): ModelCatalog => {
+    if (!isRecord(manifest) || !Array.isArray(manifest.models)) {
+        return { models: [], errors: [`${source}: manifest must be an object with a "models" array`] };
+    }
+    if (manifest.version !== SUPPORTED_MANIFEST_VERSION) {
+        return { models: [], errors: [`${source}: unsupported manifest version ${String(manifest.version)}`] };
+    }
+
+    const models: ModelConfig[] = [];
+    const errors: string[] = [];
+    const seen = new Set<string>();
+
+    manifest.models.forEach((entry, index) => {
+        const label = isRecord(entry) && typeof entry.id === "string" ? `"${entry.id}"` : `#${index + 1}`;
+        const result = validateManifestEntry(entry);
+        if (!result.model) {
+            errors.push(`${source}: model ${label} rejected: ${result.errors.join("; ")}`);
+            return;
+        }
+        if (seen.has(result.model.id)) {
+            errors.push(`${source}: model ${label} rejected: duplicate id`);
+            return;
+        }
+        seen.add(result.model.id);
+        models.push(result.model);
+    });
+
+    return { models, errors };
+};
+
+// Remote entries replace bundled ones with the same id; new ids are appended
+export const mergeCatalogs = (base: ModelConfig[], overrides: ModelConfig[]): ModelConfig[] => {
+    const merged = base.map(model => overrides.find(override => override.id === model.id) ?? model);
+    const added = overrides.filter(override => !base.some(model => model.id === override.id));
+    return [...merged, ...added];
+};
+
+export const getBundledCatalog = (): ModelCatalog => parseManifest(bundledManifest, "bundled manifest");
+
+const fetchRemoteManifest = async (url: string): Promise<unknown> => {
+    try {
+        const response = await fetch(url);
+        if (!response.ok) {
+            throw new Error(`HTTP ${response.status}`);
+        }
+        const text = await response.text();
+        const manifest = JSON.parse(text);
+        await FileSystem.writeAsStringAsync(CACHED_MANIFEST_PATH(), text);
+        return manifest;
+    } catch (error) {
+        // Fall back to the last manifest we fetched so the catalog works offline
+        console.log("ℹ️  Remote manifest unavailable, using cached copy:", error);
+        const cached = await FileSystem.getInfoAsync(CACHED_MANIFEST_PATH());
+        if (!cached.exists) {
+            throw error;
+        }
+        return JSON.parse(await FileSystem.readAsStringAsync(CACHED_MANIFEST_PATH()));
+    }
+};
+
+export const loadModelCatalog = async (): Promise<ModelCatalog> => {
+    const bundled = getBundledCatalog();
+    const url = getManifestUrl();
+    if (!url) {
+        return bundled;
+    }
+
+    try {
+        const remote = parseManifest(await fetchRemoteManifest(url), "remote manifest");
+        return {
+            models: mergeCatalogs(bundled.models, remote.models),
+            errors: [...bundled.errors, ...remote.errors]
+        };
+    } catch (error) {
+        console.error("Error loading remote manifest:", error);
+        const message = error instanceof Error ? error.message : String(error);
+        return { models: bundled.models, errors: [...bundled.errors, `remote manifest: ${message}`] };
+    }
+};
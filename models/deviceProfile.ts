@@ -0,0 +1,135 @@
+import * as Device from "expo-device";
+import { Platform } from "react-native";
+import { KvCacheType, LoadOptions } from "@/llama/loadOptions";
+import { ModelConfig } from "./catalog";
+import { formatBytes, getDownloadBytes, getFreeDiskBytes } from "./installedModels";
+
+export interface DeviceProfile {
+    totalMemoryBytes: number | null;
+    // Heuristic: what one app can allocate before the OS kills it. Neither platform exposes this to JS,
+    // so it is a fixed share of total RAM, not a reading of free memory.
+    estimatedAppMemoryBytes: number | null;
+    freeStorageBytes: number;
+    // Heuristic: llama.rn offloads layers to Metal on iOS hardware, so every physical iOS device is
+    // assumed to have it and everything else to run on the CPU. Nothing is probed.
+    gpuAssumed: boolean;
+    yearClass: number | null;
+}
+
+export type FitRating = "runs_well" | "may_be_slow" | "wont_fit";
+
+export interface ModelFit {
+    rating: FitRating;
+    requiredBytes: number;
+    reasons: string[];
+}
+
+export const FIT_LABELS: Record<FitRating, string> = {
+    runs_well: "Runs well",
+    may_be_slow: "May be slow",
+    wont_fit: "Won't fit"
+};
+
+// Rule of thumb, not a measurement: iOS terminates apps well before they reach total RAM and
+// Android leaves less to the foreground app
+const APP_MEMORY_SHARE = Platform.OS === "ios" ? 0.6 : 0.5;
+
+// Scratch buffers llama.cpp allocates for evaluation, on top of weights and KV cache
+const COMPUTE_OVERHEAD_BYTES = 300e6;
+
+// Above this share of the app's budget the OS starts compressing or swapping memory
+const TIGHT_MEMORY_SHARE = 0.8;
+
+// Roughly what a 2019 flagship generates at an interactive rate on the CPU alone
+const CPU_FRIENDLY_PARAMS = 2e9;
+const OLD_DEVICE_YEAR = 2019;
+
+// Average bits per weight, including quantization scales
+const BITS_PER_WEIGHT: Record<string, number> = {
+    F32: 32, F16: 16, BF16: 16, Q8_0: 8.5, Q6_K: 6.6, Q5_K_M: 5.7, Q5_K_S: 5.5, Q5_0: 5.5, Q5_1: 6,
+    Q4_K_M: 4.85, Q4_K_S: 4.6, Q4_0: 4.5, Q4_1: 5, IQ4_NL: 4.5, IQ4_XS: 4.25,
+    Q3_K_M: 3.9, Q3_K_S: 3.5, Q3_K_L: 4.3, Q2_K: 3.35
+};
+
+// F16 keys and values per token per billion parameters. Small models with grouped-query attention
+// need less, older architectures more; this errs towards the middle.
+const KV_BYTES_PER_TOKEN_PER_BILLION = 64e3;
+
+// Size of a quantized cache entry relative to F16
+const KV_CACHE_SCALE: Record<KvCacheType, number> = { f16: 1, q8_0: 0.53, q4_0: 0.28 };
+
+type FitOptions = Pick<LoadOptions, "n_ctx" | "n_gpu_layers" | "cache_type_k" | "cache_type_v">;
+
+export const probeDevice = async (): Promise<DeviceProfile> => {
+    const totalMemoryBytes = Device.totalMemory;
+    return {
+        totalMemoryBytes,
+        estimatedAppMemoryBytes: totalMemoryBytes !== null ? totalMemoryBytes * APP_MEMORY_SHARE : null,
+        freeStorageBytes: await getFreeDiskBytes(),
+        gpuAssumed: Platform.OS === "ios" && Device.isDevice,
+        yearClass: Device.deviceYearClass
+    };
+};
+
+export const estimateParameterCount = (model: ModelConfig) => {
+    const bits = BITS_PER_WEIGHT[model.quantization] ?? 5;
+    return (model.sizeBytes ?? model.sizeGB * 1e9) * 8 / bits;
+};
+
+// Weights are memory-mapped in full, the projector too, and the KV cache grows with the context window
+export const estimateModelMemory = (model: ModelConfig, options: FitOptions) => {
+    const cacheScale = (KV_CACHE_SCALE[options.cache_type_k] + KV_CACHE_SCALE[options.cache_type_v]) / 2;
+    const kvCacheBytes = estimateParameterCount(model) / 1e9 * KV_BYTES_PER_TOKEN_PER_BILLION * options.n_ctx * cacheScale;
+    return getDownloadBytes(model) + kvCacheBytes + COMPUTE_OVERHEAD_BYTES;
+};
+
+export const rateModelFit = (
+    model: ModelConfig,
+    profile: DeviceProfile,
+    options: FitOptions,
+    installed: boolean
+): ModelFit => {
+    const requiredBytes = estimateModelMemory(model, options);
+    const needs = `Needs about ${formatBytes(requiredBytes)} of memory with a ${options.n_ctx}-token context`;
+    const reasons: string[] = [];
+    let rating: FitRating = "runs_well";
+
+    if (!installed && getDownloadBytes(model) > profile.freeStorageBytes) {
+        return {
+            rating: "wont_fit",
+            requiredBytes,
+            reasons: [`The ${formatBytes(getDownloadBytes(model))} download is more than the ${formatBytes(profile.freeStorageBytes)} free on this device`]
+        };
+    }
+
+    const available = profile.estimatedAppMemoryBytes;
+    if (available === null) {
+        rating = "may_be_slow";
+        reasons.push(`${needs}; this device's memory couldn't be read`);
+    } else if (requiredBytes > available) {
+        return {
+            rating: "wont_fit",
+            requiredBytes,
+            reasons: [`${needs}, but apps get an estimated ${formatBytes(available)} on this device`]
+        };
+    } else if (requiredBytes > available * TIGHT_MEMORY_SHARE) {
+        rating = "may_be_slow";
+        reasons.push(`${needs}, close to the estimated ${formatBytes(available)} apps get on this device`);
+    } else {
+        reasons.push(`${needs} of an estimated ${formatBytes(available)} available`);
+    }
+
+    const parameters = estimateParameterCount(model);
+    const usesGpu = profile.gpuAssumed && options.n_gpu_layers > 0;
+    if (!usesGpu && parameters > CPU_FRIENDLY_PARAMS) {
+        rating = "may_be_slow";
+        reasons.push("Assumed to run on the CPU only; expect a few tokens per second");
+    } else if (profile.yearClass !== null && profile.yearClass < OLD_DEVICE_YEAR && parameters > CPU_FRIENDLY_PARAMS / 2) {
+        rating = "may_be_slow";
+        reasons.push(`Large for a ${profile.yearClass}-class device`);
+    } else if (usesGpu) {
+        reasons.push("Metal acceleration assumed on iPhone and iPad");
+    }
+
+    return { rating, requiredBytes, reasons };
+};
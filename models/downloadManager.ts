@@ -0,0 +1,357 @@
+import * as FileSystem from "expo-file-system";
+import { AppState, AppStateStatus } from "react-native";
+import { hashFile } from "./sha256";
+
+export type DownloadState =
+    | "downloading"
+    | "paused"
+    | "retrying"
+    | "verifying"
+    | "completed"
+    | "failed"
+    | "cancelled";
+
+export interface DownloadProgress {
+    key: string;
+    label: string;
+    state: DownloadState;
+    bytesWritten: number;
+    bytesTotal: number;
+    attempt: number;
+    error?: string;
+}
+
+export interface DownloadRequest {
+    // Stable identifier used to find resume data after a restart, e.g. "model:qwen3-1.7b"
+    key: string;
+    label: string;
+    url: string;
+    destination: string;
+    expectedBytes?: number;
+    sha256?: string;
+}
+
+export class DownloadCancelledError extends Error {
+    constructor(label: string) {
+        super(`${label} download was cancelled`);
+        this.name = "DownloadCancelledError";
+    }
+}
+
+interface ActiveDownload {
+    request: DownloadRequest;
+    // Unset only while the download is being set up
+    resumable: FileSystem.DownloadResumable | null;
+    progress: DownloadProgress;
+    onProgress: (progress: DownloadProgress) => void;
+    paused: boolean;
+    resumeRequested: boolean;
+    // Resolves a pending pause so the download loop continues
+    resume?: () => void;
+    pausedByApp: boolean;
+    cancelled: boolean;
+    lastPersisted: number;
+}
+
+const MAX_ATTEMPTS = 4;
+const BASE_RETRY_DELAY_MS = 2000;
+const PERSIST_INTERVAL_MS = 5000;
+
+const SNAPSHOTS_PATH = () => FileSystem.documentDirectory + "download_snapshots.json";
+
+const activeDownloads = new Map<string, ActiveDownload>();
+
+const getPartialPath = (destination: string) => `${destination}.part`;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const readSnapshots = async (): Promise<Record<string, FileSystem.DownloadPauseState>> => {
+    const info = await FileSystem.getInfoAsync(SNAPSHOTS_PATH());
+    if (!info.exists) {
+        return {};
+    }
+    try {
+        return JSON.parse(await FileSystem.readAsStringAsync(SNAPSHOTS_PATH()));
+    } catch (error) {
+        console.error("Error reading download snapshots:", error);
+        return {};
+    }
+};
+
+// Snapshot writes run one at a time, in the order they were requested, so a progress save can't
+// overwrite another download's entry or bring back one that was just cleared
+let snapshotQueue: Promise<unknown> = Promise.resolve();
+
+const writeSnapshot = (key: string, snapshot: FileSystem.DownloadPauseState | null) => {
+    const task = snapshotQueue.then(async () => {
+        const snapshots = await readSnapshots();
+        if (snapshot) {
+            snapshots[key] = snapshot;
+        } else {
+            delete snapshots[key];
+        }
+        await FileSystem.writeAsStringAsync(SNAPSHOTS_PATH(), JSON.stringify(snapshots));
+    });
+    snapshotQueue = task.catch(() => undefined);
+    return task;
+};
+
+export const hasPendingDownload = async (key: string) => !!(await readSnapshots())[key];
+
+const report = (download: ActiveDownload, changes: Partial<DownloadProgress>) => {
+    download.progress = { ...download.progress, ...changes };
+    download.onProgress(download.progress);
+};
+
+const persist = async (download: ActiveDownload) => {
+    if (!download.resumable) {
+        return;
+    }
+    download.lastPersisted = Date.now();
+    try {
+        await writeSnapshot(download.request.key, download.resumable.savable());
+    } catch (error) {
+        console.error("Error saving download snapshot:", error);
+    }
+};
+
+// Check size and checksum before the file is moved into place as an installed model
+const verifyDownload = async (download: ActiveDownload, partialPath: string) => {
+    const { request } = download;
+    const info = await FileSystem.getInfoAsync(partialPath);
+    if (!info.exists) {
+        throw new Error(`${request.label} download finished but the file is missing`);
+    }
+
+    const expectedBytes = request.expectedBytes ?? (download.progress.bytesTotal > 0 ? download.progress.bytesTotal : undefined);
+    if (expectedBytes !== undefined && info.size !== expectedBytes) {
+        throw new Error(`${request.label} is ${info.size} bytes but ${expectedBytes} were expected`);
+    }
+
+    if (request.sha256) {
+        report(download, { state: "verifying", bytesWritten: 0, bytesTotal: info.size });
+        const digest = await hashFile(partialPath, fraction => {
+            report(download, { bytesWritten: Math.round(fraction * info.size) });
+        });
+        if (digest !== request.sha256.toLowerCase()) {
+            throw new Error(`${request.label} failed its SHA-256 check`);
+        }
+        console.log("✅ SHA-256 verified for", request.label);
+    }
+};
+
+const waitWhilePaused = async (download: ActiveDownload) => {
+    if (!download.resumeRequested && !download.cancelled) {
+        await new Promise<void>(resolve => {
+            download.resume = resolve;
+        });
+    }
+    download.resume = undefined;
+    download.paused = false;
+    download.resumeRequested = false;
+};
+
+export const downloadFile = async (
+    request: DownloadRequest,
+    onProgress: (progress: DownloadProgress) => void
+): Promise<string> => {
+    if (activeDownloads.has(request.key)) {
+        throw new Error(`${request.label} is already downloading`);
+    }
+
+    const partialPath = getPartialPath(request.destination);
+    const snapshot = (await readSnapshots())[request.key];
+    const partialExists = (await FileSystem.getInfoAsync(partialPath)).exists;
+    const resumeData = snapshot && partialExists && snapshot.url === request.url ? snapshot.resumeData : undefined;
+    if (resumeData) {
+        console.log("⏯️  Resuming saved download for", request.label);
+    }
+
+    const download: ActiveDownload = {
+        request,
+        resumable: null,
+        progress: { key: request.key, label: request.label, state: "downloading", bytesWritten: 0, bytesTotal: request.expectedBytes ?? 0, attempt: 1 },
+        onProgress,
+        paused: false,
+        resumeRequested: false,
+        pausedByApp: false,
+        cancelled: false,
+        lastPersisted: 0,
+    };
+
+    // Pause, cancel and snapshots act on whichever resumable the download loop is using
+    const createResumable = (data?: string) => {
+        const resumable = FileSystem.createDownloadResumable(
+            request.url,
+            partialPath,
+            {},
+            (progress) => {
+                report(download, {
+                    bytesWritten: progress.totalBytesWritten,
+                    bytesTotal: progress.totalBytesExpectedToWrite > 0 ? progress.totalBytesExpectedToWrite : download.progress.bytesTotal,
+                });
+                if (Date.now() - download.lastPersisted > PERSIST_INTERVAL_MS) {
+                    persist(download);
+                }
+            },
+            data,
+        );
+        download.resumable = resumable;
+        return resumable;
+    };
+
+    let resumable = createResumable(resumeData);
+    activeDownloads.set(request.key, download);
+    onProgress(download.progress);
+
+    try {
+        let started = !!resumeData;
+        for (let attempt = 1; ; attempt++) {
+            try {
+                const result = started ? await resumable.resumeAsync() : await resumable.downloadAsync();
+                started = true;
+
+                if (download.cancelled) {
+                    throw new DownloadCancelledError(request.label);
+                }
+
+                // A paused download resolves without a result; wait for resume and continue
+                if (!result) {
+                    if (download.paused) {
+                        await waitWhilePaused(download);
+                        if (download.cancelled) {
+                            throw new DownloadCancelledError(request.label);
+                        }
+                        report(download, { state: "downloading" });
+                        attempt--;
+                        continue;
+                    }
+                    throw new Error(`${request.label} download returned no result`);
+                }
+
+                if (result.status < 200 || result.status >= 300) {
+                    throw new Error(`${request.label} download failed with HTTP ${result.status}`);
+                }
+
+                await verifyDownload(download, partialPath);
+                break;
+            } catch (error) {
+                if (error instanceof DownloadCancelledError || download.cancelled) {
+                    throw new DownloadCancelledError(request.label);
+                }
+                if (attempt >= MAX_ATTEMPTS) {
+                    throw error;
+                }
+
+                const delay = BASE_RETRY_DELAY_MS * 2 ** (attempt - 1);
+                const message = error instanceof Error ? error.message : String(error);
+                console.log(`🔁 ${request.label} attempt ${attempt} failed (${message}), retrying in ${delay}ms`);
+                report(download, { state: "retrying", attempt: attempt + 1, error: message });
+
+                // Keep partial bytes for network errors, but start over if the finished file was bad
+                const savable = resumable.savable();
+                if (download.progress.bytesTotal > 0 && download.progress.bytesWritten >= download.progress.bytesTotal) {
+                    await FileSystem.deleteAsync(partialPath, { idempotent: true });
+                    resumable = createResumable();
+                    started = false;
+                } else {
+                    resumable = createResumable(savable.resumeData);
+                    started = !!savable.resumeData;
+                }
+
+                await sleep(delay);
+                if (download.cancelled) {
+                    throw new DownloadCancelledError(request.label);
+                }
+                report(download, { state: "downloading", error: undefined });
+            }
+        }
+
+        // Cancelling while the checksum was computed must not leave an installed file behind
+        if (download.cancelled) {
+            throw new DownloadCancelledError(request.label);
+        }
+        await FileSystem.deleteAsync(request.destination, { idempotent: true });
+        await FileSystem.moveAsync({ from: partialPath, to: request.destination });
+        await writeSnapshot(request.key, null);
+        report(download, { state: "completed" });
+        return request.destination;
+    } catch (error) {
+        if (error instanceof DownloadCancelledError) {
+            await FileSystem.deleteAsync(partialPath, { idempotent: true });
+            await writeSnapshot(request.key, null);
+            report(download, { state: "cancelled" });
+        } else {
+            await persist(download);
+            report(download, { state: "failed", error: error instanceof Error ? error.message : String(error) });
+        }
+        throw error;
+    } finally {
+        activeDownloads.delete(request.key);
+    }
+};
+
+// Drop a partial download and its resume data, e.g. when the user deletes the model
+export const discardDownload = async (key: string, destination: string) => {
+    await cancelDownload(key);
+    await FileSystem.deleteAsync(getPartialPath(destination), { idempotent: true });
+    await writeSnapshot(key, null);
+};
+
+export const pauseDownload = async (key: string) => {
+    const download = activeDownloads.get(key);
+    if (!download?.resumable || download.paused || download.progress.state !== "downloading") {
+        return;
+    }
+
+    download.paused = true;
+    report(download, { state: "paused" });
+    try {
+        const snapshot = await download.resumable.pauseAsync();
+        await writeSnapshot(key, snapshot);
+    } catch (error) {
+        console.error("Error pausing download:", error);
+    }
+};
+
+export const resumeDownload = (key: string) => {
+    const download = activeDownloads.get(key);
+    if (!download || !download.paused) {
+        return;
+    }
+
+    download.pausedByApp = false;
+    download.resumeRequested = true;
+    download.resume?.();
+};
+
+export const cancelDownload = async (key: string) => {
+    const download = activeDownloads.get(key);
+    if (!download) {
+        return;
+    }
+
+    download.cancelled = true;
+    if (download.paused) {
+        download.resume?.();
+    } else {
+        try {
+            await download.resumable?.pauseAsync();
+        } catch (error) {
+            console.error("Error stopping download:", error);
+        }
+    }
+};
+
+// iOS suspends foreground transfers in the background; pausing first leaves resume data on disk
+// in case the app is killed, and the download picks up again when the app returns.
+AppState.addEventListener("change", (status: AppStateStatus) => {
+    activeDownloads.forEach((download, key) => {
+        if (status === "background" && download.progress.state === "downloading") {
+            download.pausedByApp = true;
+            pauseDownload(key);
+        } else if (status === "active" && download.pausedByApp) {
+            resumeDownload(key);
+        }
+    });
+});
@@ -0,0 +1,259 @@
+import * as FileSystem from "expo-file-system";
+
+export interface GgufMetadata {
+    version: number;
+    name?: string;
+    architecture?: string;
+    sizeLabel?: string;
+    parameterCount: number;
+    contextLength?: number;
+    fileType?: number;
+}
+
+const CHUNK_SIZE = 1024 * 1024;
+
+// GGUF metadata value types
+enum GgufType {
+    UINT8 = 0,
+    INT8 = 1,
+    UINT16 = 2,
+    INT16 = 3,
+    UINT32 = 4,
+    INT32 = 5,
+    FLOAT32 = 6,
+    BOOL = 7,
+    STRING = 8,
+    ARRAY = 9,
+    UINT64 = 10,
+    INT64 = 11,
+    FLOAT64 = 12,
+}
+
+const FIXED_SIZES: Partial<Record<GgufType, number>> = {
+    [GgufType.UINT8]: 1,
+    [GgufType.INT8]: 1,
+    [GgufType.BOOL]: 1,
+    [GgufType.UINT16]: 2,
+    [GgufType.INT16]: 2,
+    [GgufType.UINT32]: 4,
+    [GgufType.INT32]: 4,
+    [GgufType.FLOAT32]: 4,
+    [GgufType.UINT64]: 8,
+    [GgufType.INT64]: 8,
+    [GgufType.FLOAT64]: 8,
+};
+
+// general.file_type values written by llama.cpp's quantize tool
+const FILE_TYPE_NAMES: Record<number, string> = {
+    0: "F32",
+    1: "F16",
+    2: "Q4_0",
+    3: "Q4_1",
+    7: "Q8_0",
+    8: "Q5_0",
+    9: "Q5_1",
+    10: "Q2_K",
+    11: "Q3_K_S",
+    12: "Q3_K_M",
+    13: "Q3_K_L",
+    14: "Q4_K_S",
+    15: "Q4_K_M",
+    16: "Q5_K_S",
+    17: "Q5_K_M",
+    18: "Q6_K",
+    25: "IQ4_NL",
+    30: "IQ4_XS",
+    32: "BF16",
+};
+
+export const getQuantizationName = (fileType?: number) =>
+    fileType !== undefined ? FILE_TYPE_NAMES[fileType] : undefined;
+
+const decodeBase64 = (base64: string) => {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+};
+
+const decodeUtf8 = (bytes: Uint8Array) => {
+    let text = "";
+    for (let i = 0; i < bytes.length; i++) {
+        const byte = bytes[i];
+        let codePoint = byte;
+        if (byte >= 0xf0 && i + 3 < bytes.length) {
+            codePoint = ((byte & 0x07) << 18) | ((bytes[++i] & 0x3f) << 12) | ((bytes[++i] & 0x3f) << 6) | (bytes[++i] & 0x3f);
+        } else if (byte >= 0xe0 && i + 2 < bytes.length) {
+            codePoint = ((byte & 0x0f) << 12) | ((bytes[++i] & 0x3f) << 6) | (bytes[++i] & 0x3f);
+        } else if (byte >= 0xc0 && i + 1 < bytes.length) {
+            codePoint = ((byte & 0x1f) << 6) | (bytes[++i] & 0x3f);
+        }
+        text += String.fromCodePoint(codePoint);
+    }
+    return text;
+};
+
+// Reads a file front to back in chunks so multi-megabyte tokenizer arrays never sit in memory at once
+class ChunkedReader {
+    private buffer = new Uint8Array(0);
+    private bufferStart = 0;
+    position = 0;
+
+    constructor(private uri: string, private fileSize: number) {}
+
+    private async ensure(length: number) {
+        const bufferEnd = this.bufferStart + this.buffer.length;
+        if (this.position + length <= bufferEnd) {
+            return;
+        }
+        if (this.position + length > this.fileSize) {
+            throw new Error("Unexpected end of GGUF header");
+        }
+
+        const readLength = Math.min(Math.max(length, CHUNK_SIZE), this.fileSize - this.position);
+        const base64 = await FileSystem.readAsStringAsync(this.uri, {
+            encoding: FileSystem.EncodingType.Base64,
+            position: this.position,
+            length: readLength,
+        });
+        this.buffer = decodeBase64(base64);
+        this.bufferStart = this.position;
+    }
+
+    private async view(length: number) {
+        await this.ensure(length);
+        const offset = this.position - this.bufferStart;
+        this.position += length;
+        return new DataView(this.buffer.buffer, this.buffer.byteOffset + offset, length);
+    }
+
+    async skip(length: number) {
+        this.position += length;
+        if (this.position > this.fileSize) {
+            throw new Error("Unexpected end of GGUF header");
+        }
+    }
+
+    async uint32() {
+        return (await this.view(4)).getUint32(0, true);
+    }
+
+    async uint64() {
+        // Offsets and counts in practice stay below 2^53
+        return Number((await this.view(8)).getBigUint64(0, true));
+    }
+
+    async string() {
+        const length = await this.uint64();
+        if (length > this.fileSize) {
+            throw new Error("Corrupt string length in GGUF header");
+        }
+        const view = await this.view(length);
+        return decodeUtf8(new Uint8Array(view.buffer, view.byteOffset, length));
+    }
+
+    async skipString() {
+        await this.skip(await this.uint64());
+    }
+
+    async value(type: GgufType): Promise<unknown> {
+        switch (type) {
+            case GgufType.UINT8: return (await this.view(1)).getUint8(0);
+            case GgufType.INT8: return (await this.view(1)).getInt8(0);
+            case GgufType.BOOL: return (await this.view(1)).getUint8(0) !== 0;
+            case GgufType.UINT16: return (await this.view(2)).getUint16(0, true);
+            case GgufType.INT16: return (await this.view(2)).getInt16(0, true);
+            case GgufType.UINT32: return this.uint32();
+            case GgufType.INT32: return (await this.view(4)).getInt32(0, true);
+            case GgufType.FLOAT32: return (await this.view(4)).getFloat32(0, true);
+            case GgufType.UINT64: return this.uint64();
+            case GgufType.INT64: return Number((await this.view(8)).getBigInt64(0, true));
+            case GgufType.FLOAT64: return (await this.view(8)).getFloat64(0, true);
+            case GgufType.STRING: return this.string();
+            case GgufType.ARRAY: {
+                // Arrays (mostly tokenizer vocab) are skipped; none of the fields we need are arrays
+                const itemType = await this.uint32();
+                const count = await this.uint64();
+                const fixedSize = FIXED_SIZES[itemType as GgufType];
+                if (fixedSize !== undefined) {
+                    await this.skip(fixedSize * count);
+                } else if (itemType === GgufType.STRING) {
+                    for (let i = 0; i < count; i++) {
+                        await this.skipString();
+                    }
+                } else {
+                    for (let i = 0; i < count; i++) {
+                        await this.value(itemType);
+                    }
+                }
+                return undefined;
+            }
+            default:
+                throw new Error(`Unknown GGUF value type ${type}`);
+        }
+    }
+}
+
+export const readGgufMetadata = async (uri: string): Promise<GgufMetadata> => {
+    const info = await FileSystem.getInfoAsync(uri);
+    if (!info.exists) {
+        throw new Error("File not found");
+    }
+
+    const reader = new ChunkedReader(uri, info.size);
+    // "GGUF" read as a little-endian uint32
+    const magic = await reader.uint32();
+    if (magic !== 0x46554747) {
+        throw new Error('Not a GGUF file (missing "GGUF" header)');
+    }
+
+    const version = await reader.uint32();
+    if (version < 2) {
+        throw new Error(`GGUF version ${version} is too old; convert the model with a recent llama.cpp`);
+    }
+
+    const tensorCount = await reader.uint64();
+    const kvCount = await reader.uint64();
+    const values: Record<string, unknown> = {};
+
+    for (let i = 0; i < kvCount; i++) {
+        const key = await reader.string();
+        const type = await reader.uint32();
+        values[key] = await reader.value(type);
+    }
+
+    // Parameter count is the sum of every tensor's element count
+    let parameterCount = 0;
+    for (let i = 0; i < tensorCount; i++) {
+        await reader.skipString();
+        const dimensions = await reader.uint32();
+        let elements = 1;
+        for (let d = 0; d < dimensions; d++) {
+            elements *= await reader.uint64();
+        }
+        await reader.skip(4 + 8); // tensor type and data offset
+        parameterCount += elements;
+    }
+
+    const architecture = typeof values["general.architecture"] === "string" ? values["general.architecture"] as string : undefined;
+    const contextLength = architecture ? values[`${architecture}.context_length`] : undefined;
+
+    return {
+        version,
+        name: typeof values["general.name"] === "string" ? values["general.name"] as string : undefined,
+        architecture,
+        sizeLabel: typeof values["general.size_label"] === "string" ? values["general.size_label"] as string : undefined,
+        parameterCount,
+        contextLength: typeof contextLength === "number" ? contextLength : undefined,
+        fileType: typeof values["general.file_type"] === "number" ? values["general.file_type"] as number : undefined,
+    };
+};
+
+// e.g. 1720574976 -> "1.7B"
+export const formatParameterCount = (count: number) => {
+    if (count >= 1e9) return `${(count / 1e9).toFixed(1)}B`;
+    if (count >= 1e6) return `${Math.round(count / 1e6)}M`;
+    return `${count}`;
+};
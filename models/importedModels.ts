@@ -0,0 +1,99 @@
+import * as FileSystem from "expo-file-system";
+import { DEFAULT_SAMPLING, getMmprojPath, getModelPath, ModelConfig } from "./catalog";
+import { formatParameterCount, getQuantizationName, readGgufMetadata } from "./gguf";
+
+export interface PickedFile {
+    uri: string;
+    name: string;
+}
+
+const REGISTRY_PATH = () => FileSystem.documentDirectory + "imported_models.json";
+
+export const loadImportedModels = async (): Promise<ModelConfig[]> => {
+    const info = await FileSystem.getInfoAsync(REGISTRY_PATH());
+    if (!info.exists) {
+        return [];
+    }
+
+    try {
+        const models = JSON.parse(await FileSystem.readAsStringAsync(REGISTRY_PATH()));
+        return Array.isArray(models) ? models : [];
+    } catch (error) {
+        console.error("Error reading imported models:", error);
+        return [];
+    }
+};
+
+const saveImportedModels = async (models: ModelConfig[]) => {
+    await FileSystem.writeAsStringAsync(REGISTRY_PATH(), JSON.stringify(models));
+};
+
+export const removeImportedModel = async (id: string) => {
+    const models = await loadImportedModels();
+    await saveImportedModels(models.filter(model => model.id !== id));
+};
+
+const slugify = (text: string) =>
+    text.toLowerCase().replace(/[^a-z0-9.]+/g, "-").replace(/^-+|-+$/g, "").substring(0, 32) || "model";
+
+// Move a picked GGUF (and optional projector) into the documents directory and register it.
+// The picker hands us private cache copies, so moving avoids duplicating multi-gigabyte files.
+export const importModelFile = async (
+    modelFile: PickedFile,
+    mmprojFile: PickedFile | undefined,
+    maxContextLength: number
+): Promise<ModelConfig> => {
+    if (!/\.gguf$/i.test(modelFile.name)) {
+        throw new Error(`"${modelFile.name}" is not a .gguf file`);
+    }
+    if (mmprojFile && !/\.gguf$/i.test(mmprojFile.name)) {
+        throw new Error(`"${mmprojFile.name}" is not a .gguf file`);
+    }
+
+    console.log("📥 Reading GGUF header:", modelFile.name);
+    const metadata = await readGgufMetadata(modelFile.uri);
+    console.log("📊 GGUF metadata:", metadata);
+
+    const name = metadata.name || modelFile.name.replace(/\.gguf$/i, "");
+    const model: ModelConfig = {
+        id: `custom-${slugify(name)}-${Date.now().toString(36)}`,
+        name,
+        description: [
+            metadata.architecture,
+            `${metadata.sizeLabel || formatParameterCount(metadata.parameterCount)} parameters`,
+            "imported"
+        ].filter(Boolean).join(" • "),
+        url: "",
+        sizeGB: 0,
+        quantization: getQuantizationName(metadata.fileType) || "unknown",
+        // Trained context can be far larger than a phone can hold; start from the app-wide cap
+        maxParams: Math.min(metadata.contextLength || 2048, maxContextLength),
+        chatTemplate: "auto",
+        vision: !!mmprojFile,
+        recommended: false,
+        sampling: DEFAULT_SAMPLING,
+        imported: true
+    };
+
+    const modelPath = getModelPath(model);
+    await FileSystem.moveAsync({ from: modelFile.uri, to: modelPath });
+    const modelInfo = await FileSystem.getInfoAsync(modelPath);
+    model.sizeGB = modelInfo.exists ? Number((modelInfo.size / 1e9).toFixed(2)) : 0;
+
+    if (mmprojFile) {
+        try {
+            const mmprojPath = getMmprojPath(model);
+            await FileSystem.moveAsync({ from: mmprojFile.uri, to: mmprojPath });
+            const mmprojInfo = await FileSystem.getInfoAsync(mmprojPath);
+            model.mmprojSizeGB = mmprojInfo.exists ? Number((mmprojInfo.size / 1e9).toFixed(2)) : undefined;
+        } catch (error) {
+            await FileSystem.deleteAsync(modelPath, { idempotent: true });
+            throw error;
+        }
+    }
+
+    const models = await loadImportedModels();
+    await saveImportedModels([...models, model]);
+    console.log("✅ Imported model:", model.name, "ID:", model.id);
+    return model;
+};
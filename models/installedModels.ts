@@ -0,0 +1,109 @@
+import * as FileSystem from "expo-file-system";
+import { getMmprojPath, getModelPath, hasMmproj, ModelConfig } from "./catalog";
+import { discardDownload } from "./downloadManager";
+
+export interface InstalledModelInfo {
+    modelId: string;
+    installed: boolean;
+    // Bytes on disk, including any partial download
+    diskBytes: number;
+    partial: boolean;
+    lastUsedAt?: number;
+}
+
+const USAGE_PATH = () => FileSystem.documentDirectory + "model_usage.json";
+
+const readUsage = async (): Promise<Record<string, number>> => {
+    const info = await FileSystem.getInfoAsync(USAGE_PATH());
+    if (!info.exists) {
+        return {};
+    }
+    try {
+        return JSON.parse(await FileSystem.readAsStringAsync(USAGE_PATH()));
+    } catch (error) {
+        console.error("Error reading model usage:", error);
+        return {};
+    }
+};
+
+export const markModelUsed = async (modelId: string) => {
+    const usage = await readUsage();
+    usage[modelId] = Date.now();
+    await FileSystem.writeAsStringAsync(USAGE_PATH(), JSON.stringify(usage));
+};
+
+const fileSize = async (uri: string) => {
+    const info = await FileSystem.getInfoAsync(uri);
+    return info.exists ? info.size : 0;
+};
+
+const getModelFiles = (model: ModelConfig) => {
+    const files = [getModelPath(model)];
+    if (hasMmproj(model)) {
+        files.push(getMmprojPath(model));
+    }
+    return files;
+};
+
+export const getInstalledModelInfo = async (models: ModelConfig[]): Promise<Record<string, InstalledModelInfo>> => {
+    const usage = await readUsage();
+    const result: Record<string, InstalledModelInfo> = {};
+
+    for (const model of models) {
+        let installed = true;
+        let partial = false;
+        let diskBytes = 0;
+
+        for (const file of getModelFiles(model)) {
+            const size = await fileSize(file);
+            const partialSize = await fileSize(`${file}.part`);
+            installed = installed && size > 0;
+            partial = partial || partialSize > 0;
+            diskBytes += size + partialSize;
+        }
+
+        result[model.id] = {
+            modelId: model.id,
+            installed,
+            diskBytes,
+            partial,
+            lastUsedAt: usage[model.id]
+        };
+    }
+
+    return result;
+};
+
+export const deleteModelFiles = async (model: ModelConfig) => {
+    console.log("🗑️  Deleting files for model:", model.name, "ID:", model.id);
+    await FileSystem.deleteAsync(getModelPath(model), { idempotent: true });
+    await discardDownload(`model:${model.id}`, getModelPath(model));
+    if (hasMmproj(model)) {
+        await FileSystem.deleteAsync(getMmprojPath(model), { idempotent: true });
+        await discardDownload(`mmproj:${model.id}`, getMmprojPath(model));
+    }
+
+    const usage = await readUsage();
+    delete usage[model.id];
+    await FileSystem.writeAsStringAsync(USAGE_PATH(), JSON.stringify(usage));
+};
+
+export const getFreeDiskBytes = () => FileSystem.getFreeDiskStorageAsync();
+
+// Prefer exact byte counts from the catalog, falling back to the rounded GB figures
+export const getDownloadBytes = (model: ModelConfig) =>
+    (model.sizeBytes ?? model.sizeGB * 1e9) + (model.mmprojSizeBytes ?? (model.mmprojSizeGB ?? 0) * 1e9);
+
+export const formatBytes = (bytes: number) => {
+    if (bytes >= 1e9) return `${(bytes / 1e9).toFixed(2)}GB`;
+    if (bytes >= 1e6) return `${Math.round(bytes / 1e6)}MB`;
+    return `${Math.round(bytes / 1e3)}KB`;
+};
+
+export const formatLastUsed = (timestamp?: number) => {
+    if (!timestamp) return "Never used";
+    const days = Math.floor((Date.now() - timestamp) / (24 * 60 * 60 * 1000));
+    if (days === 0) return "Used today";
+    if (days === 1) return "Used yesterday";
+    return `Used ${days} days ago`;
+};
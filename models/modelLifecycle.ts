@@ -0,0 +1,196 @@
+import * as FileSystem from "expo-file-system";
+import { LlamaContext } from "llama.rn";
+import { loadModel } from "@/llama/llama.config";
+import { LoadOptions, resolveLoadOptions } from "@/llama/loadOptions";
+import { getMmprojPath, getModelPath, hasMmproj, ModelConfig } from "./catalog";
+import { DownloadCancelledError, downloadFile, DownloadProgress } from "./downloadManager";
+import { markModelUsed } from "./installedModels";
+import { loadModelSettings } from "./modelSettings";
+
+// idle → downloading → loading → ready → releasing → (idle | downloading | loading), with error reachable from any step
+export type LifecycleState =
+    | { phase: "idle" }
+    | { phase: "downloading"; model: ModelConfig; status: string; download?: DownloadProgress }
+    | { phase: "loading"; model: ModelConfig; status: string }
+    | { phase: "ready"; model: ModelConfig; context: LlamaContext; options: LoadOptions }
+    | { phase: "releasing"; model: ModelConfig; status: string }
+    | { phase: "error"; model: ModelConfig; error: string };
+
+type Listener = () => void;
+
+let state: LifecycleState = { phase: "idle" };
+const listeners = new Set<Listener>();
+
+// Every request runs after the previous one finishes, so two contexts are never alive at once
+let queue: Promise<void> = Promise.resolve();
+let latestRequest = 0;
+
+const setState = (next: LifecycleState) => {
+    state = next;
+    listeners.forEach(listener => listener());
+};
+
+export const getLifecycleState = () => state;
+
+export const subscribeToLifecycle = (listener: Listener) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+export const getActiveContext = () => (state.phase === "ready" ? state.context : null);
+
+const describeDownload = (progress: DownloadProgress) => {
+    const percent = progress.bytesTotal > 0 ? (progress.bytesWritten / progress.bytesTotal) * 100 : 0;
+    switch (progress.state) {
+        case "paused":
+            return `${progress.label} download paused at ${percent.toFixed(1)}%`;
+        case "retrying":
+            return `Retrying ${progress.label} (attempt ${progress.attempt})...`;
+        case "verifying":
+            return `Verifying ${progress.label}: ${percent.toFixed(0)}%`;
+        default:
+            return `Downloading ${progress.label}: ${percent.toFixed(1)}%`;
+    }
+};
+
+const releaseCurrent = async () => {
+    if (state.phase !== "ready") {
+        return;
+    }
+
+    const { model, context } = state;
+    setState({ phase: "releasing", model, status: `Unloading ${model.name}...` });
+    try {
+        await context.release();
+        console.log("♻️  Released context for", model.name);
+    } catch (e) {
+        // The native side may already have dropped it; carry on so the next model can load
+        console.error("Error releasing context:", e);
+    }
+};
+
+const ensureModelFiles = async (model: ModelConfig, modelPath: string, mmprojPath: string | null) => {
+    const modelExists = (await FileSystem.getInfoAsync(modelPath)).exists;
+    const mmprojExists = mmprojPath ? (await FileSystem.getInfoAsync(mmprojPath)).exists : true;
+    console.log("📁 Model exists:", modelExists, "Path:", modelPath);
+    console.log("📁 Mmproj exists:", mmprojExists, "Path:", mmprojPath || "none");
+
+    if (modelExists && mmprojExists) {
+        return;
+    }
+    if (model.imported) {
+        throw new Error(`${model.name} was imported from device storage and its file is missing. Import it again from the Models tab.`);
+    }
+
+    const onProgress = (download: DownloadProgress) => {
+        setState({ phase: "downloading", model, status: describeDownload(download), download });
+    };
+
+    if (!modelExists) {
+        setState({ phase: "downloading", model, status: "Downloading model..." });
+        await downloadFile({
+            key: `model:${model.id}`,
+            label: model.name,
+            url: model.url,
+            destination: modelPath,
+            expectedBytes: model.sizeBytes,
+            sha256: model.sha256,
+        }, onProgress);
+        console.log("Finished downloading model to ", modelPath);
+    }
+
+    // Download mmproj file if needed
+    if (model.mmprojUrl && mmprojPath && !mmprojExists) {
+        setState({ phase: "downloading", model, status: "Downloading multimodal projection file..." });
+        await downloadFile({
+            key: `mmproj:${model.id}`,
+            label: `${model.name} vision projector`,
+            url: model.mmprojUrl,
+            destination: mmprojPath,
+            expectedBytes: model.mmprojSizeBytes,
+            sha256: model.mmprojSha256,
+        }, onProgress);
+        console.log("Finished downloading mmproj to ", mmprojPath);
+    }
+};
+
+const activate = async (model: ModelConfig) => {
+    console.log("🔄 Starting download/load for model:", model.name, "ID:", model.id);
+    await releaseCurrent();
+
+    const modelPath = getModelPath(model);
+    const mmprojPath = hasMmproj(model) ? getMmprojPath(model) : null;
+
+    try {
+        setState({ phase: "loading", model, status: "Checking for existing model..." });
+        await ensureModelFiles(model, modelPath, mmprojPath);
+
+        setState({ phase: "loading", model, status: `Loading ${model.name}...` });
+        const options = resolveLoadOptions(model, (await loadModelSettings(model.id)).loadOptions);
+        let context: LlamaContext;
+        try {
+            context = await loadModel(modelPath, mmprojPath || undefined, options);
+        } catch (loadError) {
+            console.error("Error loading model:", loadError);
+            // Most load failures come from options the device can't handle, not damaged files, so keep the download
+            const reason = loadError instanceof Error ? loadError.message : String(loadError);
+            throw new Error(`${model.name} couldn't be loaded: ${reason}. If you changed its load options, open Advanced Load Options on the Models tab and tap Use Defaults.`);
+        }
+
+        console.log("✅ Model loaded successfully:", model.name, "ID:", model.id);
+        markModelUsed(model.id).catch(e => console.error("Error recording model usage:", e));
+        setState({ phase: "ready", model, context, options });
+    } catch (e) {
+        if (e instanceof DownloadCancelledError) {
+            console.log("Download cancelled by user");
+        } else {
+            console.error("Error activating model:", e);
+        }
+        setState({ phase: "error", model, error: e instanceof Error ? e.message : "Unknown error occurred" });
+    }
+};
+
+const enqueueActivation = (model: ModelConfig, reload: boolean): Promise<void> => {
+    const request = ++latestRequest;
+    queue = queue.then(async () => {
+        if (request !== latestRequest) {
+            console.log("⏭️  Skipping superseded model request:", model.name);
+            return;
+        }
+        if (!reload && state.phase === "ready" && state.model.id === model.id) {
+            return;
+        }
+        await activate(model);
+    });
+    return queue;
+};
+
+// Make `model` the active one. Requests superseded while waiting in the queue are skipped.
+export const activateModel = (model: ModelConfig) => enqueueActivation(model, false);
+
+// Load `model` again even if it is already active, so saved load options take effect
+export const reloadModel = (model: ModelConfig) => enqueueActivation(model, true);
+
+export const releaseActiveModel = (): Promise<void> => {
+    latestRequest++;
+    queue = queue.then(async () => {
+        await releaseCurrent();
+        setState({ phase: "idle" });
+    });
+    return queue;
+};
+
+// Run `task` with no model loaded, e.g. a benchmark that loads models itself. Two contexts are never
+// alive at once; callers activate a model again afterwards.
+export const runWithoutActiveModel = <T>(task: () => Promise<T>): Promise<T> => {
+    latestRequest++;
+    const result = queue.then(async () => {
+        await releaseCurrent();
+        setState({ phase: "idle" });
+        return task();
+    });
+    queue = result.then(() => undefined, () => undefined);
+    return result;
+};
@@ -0,0 +1,53 @@
+import * as FileSystem from "expo-file-system";
+import { LoadOptions } from "@/llama/loadOptions";
+
+// Preferences the user sets once per model, shared by every conversation using it
+export interface ModelSettings {
+    // Only consulted for models whose catalog entry has `thinking: true`
+    thinking?: boolean;
+    // Reply length cap for turns that include an image; unset uses DEFAULT_IMAGE_MAX_TOKENS
+    imageMaxTokens?: number;
+    // Only the options changed from the catalog defaults; applied the next time the model loads
+    loadOptions?: Partial<LoadOptions>;
+    // Persona new chats with this model start with
+    personaId?: string;
+}
+
+export const DEFAULT_IMAGE_MAX_TOKENS = 512;
+export const IMAGE_MAX_TOKENS_RANGE: [number, number] = [16, 4096];
+
+const SETTINGS_PATH = () => FileSystem.documentDirectory + "model_settings.json";
+
+const readAllSettings = async (): Promise<Record<string, ModelSettings>> => {
+    const info = await FileSystem.getInfoAsync(SETTINGS_PATH());
+    if (!info.exists) {
+        return {};
+    }
+    try {
+        return JSON.parse(await FileSystem.readAsStringAsync(SETTINGS_PATH()));
+    } catch (error) {
+        console.error("Error reading model settings:", error);
+        return {};
+    }
+};
+
+export const loadAllModelSettings = readAllSettings;
+
+export const loadModelSettings = async (modelId: string): Promise<ModelSettings> =>
+    (await readAllSettings())[modelId] ?? {};
+
+export const saveModelSettings = async (modelId: string, changes: Partial<ModelSettings>): Promise<ModelSettings> => {
+    const all = await readAllSettings();
+    const updated = { ...all[modelId], ...changes };
+    all[modelId] = updated;
+    await FileSystem.writeAsStringAsync(SETTINGS_PATH(), JSON.stringify(all));
+    return updated;
+};
+
+export const removeModelSettings = async (modelId: string) => {
+    const all = await readAllSettings();
+    if (modelId in all) {
+        delete all[modelId];
+        await FileSystem.writeAsStringAsync(SETTINGS_PATH(), JSON.stringify(all));
+    }
+};
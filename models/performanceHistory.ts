@@ -0,0 +1,106 @@
+import * as FileSystem from "expo-file-system";
+import { ResponseMetrics } from "@/llama/llama.config";
+import { LoadOptions } from "@/llama/loadOptions";
+import { ModelConfig } from "./catalog";
+
+// One finished reply, with the setup it ran under so different quantizations and load options can be compared
+export interface PerformanceSample {
+    timestamp: number;
+    quantization: string;
+    loadOptions: LoadOptions;
+    promptTokens?: number;
+    generatedTokens: number;
+    timeToFirstTokenMs?: number;
+    tokensPerSecond: number;
+    promptTokensPerSecond?: number;
+}
+
+export interface PerformanceSummary {
+    configuration: string;
+    samples: number;
+    tokensPerSecond: number;
+    timeToFirstTokenMs?: number;
+    lastRunAt: number;
+}
+
+const MAX_SAMPLES_PER_MODEL = 50;
+
+// Replies this short say more about overhead than about generation speed
+const MIN_GENERATED_TOKENS = 8;
+
+const HISTORY_PATH = () => FileSystem.documentDirectory + "model_performance.json";
+
+export const loadPerformanceHistory = async (): Promise<Record<string, PerformanceSample[]>> => {
+    const info = await FileSystem.getInfoAsync(HISTORY_PATH());
+    if (!info.exists) {
+        return {};
+    }
+    try {
+        return JSON.parse(await FileSystem.readAsStringAsync(HISTORY_PATH()));
+    } catch (error) {
+        console.error("Error reading performance history:", error);
+        return {};
+    }
+};
+
+export const recordPerformance = async (model: ModelConfig, loadOptions: LoadOptions, metrics: ResponseMetrics) => {
+    if (metrics.generatedTokens < MIN_GENERATED_TOKENS) {
+        return;
+    }
+
+    const history = await loadPerformanceHistory();
+    const sample: PerformanceSample = {
+        timestamp: Date.now(),
+        quantization: model.quantization,
+        loadOptions,
+        promptTokens: metrics.promptTokens,
+        generatedTokens: metrics.generatedTokens,
+        timeToFirstTokenMs: metrics.timeToFirstTokenMs,
+        tokensPerSecond: metrics.tokensPerSecond,
+        promptTokensPerSecond: metrics.promptTokensPerSecond
+    };
+    history[model.id] = [...(history[model.id] ?? []), sample].slice(-MAX_SAMPLES_PER_MODEL);
+    await FileSystem.writeAsStringAsync(HISTORY_PATH(), JSON.stringify(history));
+};
+
+export const removePerformanceHistory = async (modelId: string) => {
+    const history = await loadPerformanceHistory();
+    if (modelId in history) {
+        delete history[modelId];
+        await FileSystem.writeAsStringAsync(HISTORY_PATH(), JSON.stringify(history));
+    }
+};
+
+export const describeConfiguration = (quantization: string, options: LoadOptions) => {
+    const parts = [quantization, `ctx ${options.n_ctx}`, `GPU ${options.n_gpu_layers}`, `batch ${options.n_batch}`];
+    if (options.n_threads > 0) parts.push(`${options.n_threads} threads`);
+    if (options.flash_attn) parts.push("flash attn");
+    if (options.cache_type_k !== "f16" || options.cache_type_v !== "f16") {
+        parts.push(`KV ${options.cache_type_k}/${options.cache_type_v}`);
+    }
+    return parts.join(" · ");
+};
+
+const average = (values: number[]) => values.reduce((total, value) => total + value, 0) / values.length;
+
+// Average the samples per setup, most recently used setup first
+export const summarizePerformance = (samples: PerformanceSample[]): PerformanceSummary[] => {
+    const groups = new Map<string, PerformanceSample[]>();
+    for (const sample of samples) {
+        const key = describeConfiguration(sample.quantization, sample.loadOptions);
+        groups.set(key, [...(groups.get(key) ?? []), sample]);
+    }
+
+    return [...groups.entries()]
+        .map(([configuration, group]) => {
+            const firstTokenTimes = group.flatMap(sample => sample.timeToFirstTokenMs !== undefined ? [sample.timeToFirstTokenMs] : []);
+            return {
+                configuration,
+                samples: group.length,
+                tokensPerSecond: average(group.map(sample => sample.tokensPerSecond)),
+                timeToFirstTokenMs: firstTokenTimes.length > 0 ? average(firstTokenTimes) : undefined,
+                lastRunAt: Math.max(...group.map(sample => sample.timestamp))
+            };
+        })
+        .sort((a, b) => b.lastRunAt - a.lastRunAt);
+};
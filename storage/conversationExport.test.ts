@@ -0,0 +1,132 @@
+import * as FileSystem from "expo-file-system";
+import { importConversationJson } from "./conversationExport";
+import { listConversations } from "./conversations";
+import { getActivePath } from "./messageTree";
+
+// In-memory stand-in for the document directory, keyed by full path
+const mockFiles = new Map<string, string>();
+
+jest.mock("expo-file-system", () => ({
+    documentDirectory: "file:///documents/",
+    cacheDirectory: "file:///cache/",
+    EncodingType: { Base64: "base64" },
+    getInfoAsync: jest.fn(async (path: string) => ({
+        exists: mockFiles.has(path) || [...mockFiles.keys()].some(file => file.startsWith(path))
+    })),
+    makeDirectoryAsync: jest.fn(async () => undefined),
+    readAsStringAsync: jest.fn(async (path: string) => {
+        const contents = mockFiles.get(path);
+        if (contents === undefined) {
+            throw new Error(`No file at ${path}`);
+        }
+        return contents;
+    }),
+    writeAsStringAsync: jest.fn(async (path: string, contents: string) => {
+        mockFiles.set(path, contents);
+    }),
+    readDirectoryAsync: jest.fn(async (directory: string) =>
+        [...mockFiles.keys()]
+            .filter(path => path.startsWith(directory))
+            .map(path => path.substring(directory.length))),
+    deleteAsync: jest.fn(async (path: string) => {
+        mockFiles.delete(path);
+    })
+}));
+
+jest.mock("expo-sharing", () => ({ shareAsync: jest.fn() }));
+
+const EXPORT_PATH = "file:///cache/export.json";
+
+const writeExport = (messages: unknown[], extra: Record<string, unknown> = {}) => {
+    mockFiles.set(EXPORT_PATH, JSON.stringify({
+        format: "deepseekmobile-conversation",
+        version: 1,
+        exportedAt: "2024-05-01T12:00:00.000Z",
+        conversation: {
+            version: 2,
+            id: "chat_original",
+            title: "Shared chat",
+            modelId: "qwen2.5-3b",
+            systemPrompt: "You are helpful.",
+            createdAt: 1000,
+            updatedAt: 2000,
+            activeLeafId: "b",
+            messages
+        },
+        images: {},
+        ...extra
+    }));
+};
+
+const message = (id: string, parentId?: string, changes: Record<string, unknown> = {}) => ({
+    id,
+    text: `Message ${id}`,
+    isUser: parentId === undefined,
+    timestamp: "2024-05-01T10:00:00.000Z",
+    parentId,
+    ...changes
+});
+
+beforeEach(() => {
+    mockFiles.clear();
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe("importConversationJson", () => {
+    it("saves a valid export as a new chat", async () => {
+        writeExport([message("a"), message("b", "a")], {
+            images: { "file:///old/photo.png": { mimeType: "image/png", base64: "iVBORw0KGgo=" } }
+        });
+
+        const conversation = await importConversationJson(EXPORT_PATH);
+
+        expect(conversation.id).not.toBe("chat_original");
+        expect(getActivePath(conversation).map(msg => msg.id)).toEqual(["a", "b"]);
+        expect(mockFiles.get(`${FileSystem.documentDirectory}conversation_images/${conversation.id}_0.png`)).toBe("iVBORw0KGgo=");
+        expect((await listConversations()).map(summary => summary.id)).toEqual([conversation.id]);
+    });
+
+    it("rejects messages whose parents form a loop", async () => {
+        writeExport([message("root"), message("a", "b"), message("b", "a")]);
+
+        await expect(importConversationJson(EXPORT_PATH)).rejects.toThrow("Message 2 is part of a reply loop.");
+        expect(await listConversations()).toEqual([]);
+    });
+
+    it("rejects a message that replies to itself", async () => {
+        writeExport([message("a"), message("b", "b")]);
+
+        await expect(importConversationJson(EXPORT_PATH)).rejects.toThrow("Message 2 is part of a reply loop.");
+    });
+
+    it("rejects a reply to a message that isn't in the file", async () => {
+        writeExport([message("a"), message("b", "missing")]);
+
+        await expect(importConversationJson(EXPORT_PATH)).rejects.toThrow("Message 2 replies to a message that isn't in the file.");
+    });
+
+    it("rejects a missing timestamp", async () => {
+        writeExport([message("a"), message("b", "a", { timestamp: undefined })]);
+
+        await expect(importConversationJson(EXPORT_PATH)).rejects.toThrow("Message 2 has no valid timestamp.");
+    });
+
+    it("rejects a timestamp that doesn't parse", async () => {
+        writeExport([message("a", undefined, { timestamp: "yesterday-ish" })]);
+
+        await expect(importConversationJson(EXPORT_PATH)).rejects.toThrow("Message 1 has no valid timestamp.");
+        expect(await listConversations()).toEqual([]);
+    });
+
+    it("rejects messages without an id or text", async () => {
+        writeExport([message("a", undefined, { id: "" })]);
+        await expect(importConversationJson(EXPORT_PATH)).rejects.toThrow("Message 1 has no id.");
+
+        writeExport([message("a", undefined, { text: 42 })]);
+        await expect(importConversationJson(EXPORT_PATH)).rejects.toThrow("Message 1 has no text.");
+    });
+});
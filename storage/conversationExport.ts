@@ -0,0 +1,212 @@
+import * as FileSystem from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import { GenerationSettings } from "@/llama/generationSettings";
+import {
+    Conversation,
+    deserializeConversation,
+    generateConversationId,
+    Message,
+    saveConversation,
+    serializeConversation
+} from "./conversations";
+import { getConversationImagesDirectory } from "./conversationImages";
+import { getActivePath } from "./messageTree";
+
+const EXPORT_FORMAT = "deepseekmobile-conversation";
+const EXPORT_VERSION = 1;
+
+interface EmbeddedImage {
+    mimeType: string;
+    base64: string;
+}
+
+// Lossless form: the stored conversation with every branch, plus the images it points to
+interface ConversationExport {
+    format: typeof EXPORT_FORMAT;
+    version: number;
+    exportedAt: string;
+    conversation: unknown;
+    // What the chat ran with, including model defaults it never overrode; unset if its model is gone
+    generationSettings?: GenerationSettings;
+    // Keyed by the uri the messages refer to
+    images: Record<string, EmbeddedImage>;
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+    jpg: "image/jpeg",
+    jpeg: "image/jpeg",
+    png: "image/png",
+    gif: "image/gif",
+    webp: "image/webp",
+    heic: "image/heic"
+};
+
+const getExtension = (uri: string) => uri.split(/[?#]/)[0].split(".").pop()?.toLowerCase() ?? "";
+
+const getFileName = (uri: string) => decodeURIComponent(uri.split(/[?#]/)[0].split("/").pop() ?? uri);
+
+const slugify = (text: string) =>
+    text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").substring(0, 40) || "chat";
+
+const formatTime = (date: Date) => date.toLocaleString([], { dateStyle: "medium", timeStyle: "short" });
+
+const toMarkdownMessage = (message: Message) => {
+    const lines = [`### ${message.isUser ? "User" : "Assistant"} · ${formatTime(message.timestamp)}`, ""];
+    if (message.reasoning) {
+        lines.push("<details><summary>Reasoning</summary>", "", message.reasoning.trim(), "", "</details>", "");
+    }
+    if (message.text) {
+        lines.push(message.text.trim(), "");
+    }
+    message.imageUris?.forEach((uri, index) => lines.push(`![Image ${index + 1}](${getFileName(uri)})`, ""));
+    if (message.interrupted) {
+        lines.push("_Stopped before the reply finished._", "");
+    }
+    return lines.join("\n");
+};
+
+// Readable transcript of the branch being shown, for pasting into bug reports and reviews
+export const toMarkdown = (conversation: Conversation) => {
+    const path = getActivePath(conversation);
+    const header = [
+        `# ${conversation.title}`,
+        "",
+        `- Model: \`${conversation.modelId}\``,
+        `- Started: ${formatTime(new Date(conversation.createdAt))}`,
+        `- Exported: ${formatTime(new Date())}`
+    ];
+    if (path.length < conversation.messages.length) {
+        header.push("- Only the selected branch is included; the JSON export has every branch.");
+    }
+    header.push("", "## System Prompt", "", ...conversation.systemPrompt.trim().split("\n").map(line => `> ${line}`), "", "---", "");
+    return header.join("\n") + path.map(toMarkdownMessage).join("\n");
+};
+
+const embedImages = async (conversation: Conversation) => {
+    const images: Record<string, EmbeddedImage> = {};
+    for (const message of conversation.messages) {
+        for (const uri of message.imageUris ?? []) {
+            if (images[uri]) {
+                continue;
+            }
+            try {
+                const base64 = await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 });
+                images[uri] = { mimeType: IMAGE_TYPES[getExtension(uri)] ?? "image/jpeg", base64 };
+            } catch (error) {
+                // Older chats point at the picker's cache copies, which the system may have cleared; export the rest
+                console.error("Error reading image for export:", uri, error);
+            }
+        }
+    }
+    return images;
+};
+
+const shareFile = async (fileName: string, contents: string, mimeType: string, UTI: string, dialogTitle: string) => {
+    const path = FileSystem.cacheDirectory + fileName;
+    await FileSystem.writeAsStringAsync(path, contents);
+    await Sharing.shareAsync(path, { mimeType, UTI, dialogTitle });
+};
+
+export const exportConversationMarkdown = (conversation: Conversation) =>
+    shareFile(`${slugify(conversation.title)}.md`, toMarkdown(conversation), "text/markdown", "net.daringfireball.markdown", "Export Chat");
+
+export const exportConversationJson = async (conversation: Conversation, generationSettings?: GenerationSettings) => {
+    const exported: ConversationExport = {
+        format: EXPORT_FORMAT,
+        version: EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        conversation: JSON.parse(serializeConversation(conversation)),
+        generationSettings,
+        images: await embedImages(conversation)
+    };
+    await shareFile(`${slugify(conversation.title)}.json`, JSON.stringify(exported), "application/json", "public.json", "Export Chat");
+};
+
+// Reject hand-edited or truncated files before anything is written: a message without an id, a
+// dangling or looping parentId, or an unreadable timestamp would break the message tree or its display
+const validateMessages = (conversation: unknown) => {
+    const messages = (conversation as { messages?: unknown }).messages;
+    if (!Array.isArray(messages)) {
+        throw new Error("The exported chat has no message list.");
+    }
+
+    const parents = new Map<string, string | undefined>();
+    messages.forEach((message, index) => {
+        const { id, text, isUser, timestamp, parentId } = (message ?? {}) as Record<string, unknown>;
+        if (typeof id !== "string" || !id) {
+            throw new Error(`Message ${index + 1} has no id.`);
+        }
+        if (parents.has(id)) {
+            throw new Error(`Message ${index + 1} repeats the id "${id}".`);
+        }
+        if (typeof text !== "string") {
+            throw new Error(`Message ${index + 1} has no text.`);
+        }
+        if (typeof isUser !== "boolean") {
+            throw new Error(`Message ${index + 1} doesn't say who sent it.`);
+        }
+        if ((typeof timestamp !== "string" && typeof timestamp !== "number") || isNaN(new Date(timestamp).getTime())) {
+            throw new Error(`Message ${index + 1} has no valid timestamp.`);
+        }
+        if (parentId !== undefined && typeof parentId !== "string") {
+            throw new Error(`Message ${index + 1} replies to a message that isn't in the file.`);
+        }
+        parents.set(id, parentId);
+    });
+
+    // Ancestors already walked from an earlier message are known to end at a root
+    const rooted = new Set<string>();
+    messages.forEach(({ id }: { id: string }, index) => {
+        const seen = new Set([id]);
+        for (let parentId = parents.get(id); parentId !== undefined && !rooted.has(parentId); parentId = parents.get(parentId)) {
+            if (!parents.has(parentId)) {
+                throw new Error(`Message ${index + 1} replies to a message that isn't in the file.`);
+            }
+            if (seen.has(parentId)) {
+                throw new Error(`Message ${index + 1} is part of a reply loop.`);
+            }
+            seen.add(parentId);
+        }
+        seen.forEach(ancestor => rooted.add(ancestor));
+    });
+};
+
+// Restore a JSON export as a new chat; it gets its own id so importing twice never overwrites
+export const importConversationJson = async (uri: string): Promise<Conversation> => {
+    let exported: ConversationExport;
+    try {
+        exported = JSON.parse(await FileSystem.readAsStringAsync(uri));
+    } catch (error) {
+        console.error("Error reading chat export:", error);
+        throw new Error("The file is not valid JSON.");
+    }
+    if (exported?.format !== EXPORT_FORMAT || !exported.conversation) {
+        throw new Error("The file is not an exported chat.");
+    }
+    if (exported.version > EXPORT_VERSION) {
+        throw new Error("The chat was exported by a newer version of the app.");
+    }
+    validateMessages(exported.conversation);
+
+    const conversation = deserializeConversation(JSON.stringify(exported.conversation));
+    const id = generateConversationId();
+
+    const directory = getConversationImagesDirectory();
+    await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+    const restoredUris = new Map<string, string>();
+    for (const [index, [originalUri, image]] of Object.entries(exported.images ?? {}).entries()) {
+        const extension = Object.keys(IMAGE_TYPES).find(key => IMAGE_TYPES[key] === image.mimeType) ?? "jpg";
+        const path = `${directory}${id}_${index}.${extension}`;
+        await FileSystem.writeAsStringAsync(path, image.base64, { encoding: FileSystem.EncodingType.Base64 });
+        restoredUris.set(originalUri, path);
+    }
+
+    console.log(`📥 Importing "${conversation.title}" with ${restoredUris.size} images`);
+    return saveConversation({
+        ...conversation,
+        id,
+        messages: conversation.messages.map(msg => msg.imageUris
+            ? { ...msg, imageUris: msg.imageUris.map(uri => restoredUris.get(uri) ?? uri) }
+            : msg)
+    });
+};
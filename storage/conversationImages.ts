@@ -0,0 +1,50 @@
+import * as FileSystem from "expo-file-system";
+
+// Images a chat refers to are copied here, named after the chat, so the system can't clear them
+// the way it clears the image picker's cache
+export const getConversationImagesDirectory = () => FileSystem.documentDirectory + "conversation_images/";
+
+const getExtension = (uri: string) => uri.split(/[?#]/)[0].split(".").pop()?.toLowerCase() || "jpg";
+
+let imageCounter = 0;
+
+// Copy attached images into the chat's folder; images already there (e.g. when editing a message) are reused.
+// An image that can't be copied keeps its original uri so the message can still be sent.
+export const persistConversationImages = async (conversationId: string, uris: string[]) => {
+    const directory = getConversationImagesDirectory();
+    await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+    return Promise.all(uris.map(async uri => {
+        if (uri.startsWith(directory)) {
+            return uri;
+        }
+        const path = `${directory}${conversationId}_${Date.now()}_${++imageCounter}.${getExtension(uri)}`;
+        try {
+            await FileSystem.copyAsync({ from: uri, to: path });
+            return path;
+        } catch (error) {
+            console.error("Error saving attached image:", uri, error);
+            return uri;
+        }
+    }));
+};
+
+// Drop images whose file is gone, such as picker copies from chats saved before images were kept
+export const findExistingImages = async (uris: string[]) => {
+    const exists = await Promise.all(uris.map(uri => FileSystem.getInfoAsync(uri)
+        .then(info => info.exists)
+        .catch(() => false)));
+    return uris.filter((_, index) => exists[index]);
+};
+
+// Images saved by sends and imports belong to that chat and go when it is deleted
+export const deleteConversationImages = async (conversationId: string) => {
+    const directory = getConversationImagesDirectory();
+    const info = await FileSystem.getInfoAsync(directory);
+    if (!info.exists) {
+        return;
+    }
+    const files = await FileSystem.readDirectoryAsync(directory);
+    await Promise.all(files
+        .filter(file => file.startsWith(`${conversationId}_`))
+        .map(file => FileSystem.deleteAsync(directory + file, { idempotent: true })));
+};
@@ -0,0 +1,145 @@
+import * as FileSystem from "expo-file-system";
+import {
+    Conversation,
+    createConversation,
+    deleteConversation,
+    listConversations,
+    loadConversation,
+    saveConversation
+} from "./conversations";
+
+// In-memory stand-in for the document directory, keyed by full path
+const mockFiles = new Map<string, string>();
+
+jest.mock("expo-file-system", () => ({
+    documentDirectory: "file:///documents/",
+    getInfoAsync: jest.fn(async (path: string) => ({
+        exists: mockFiles.has(path) || [...mockFiles.keys()].some(file => file.startsWith(path))
+    })),
+    makeDirectoryAsync: jest.fn(async () => undefined),
+    readAsStringAsync: jest.fn(async (path: string) => {
+        const contents = mockFiles.get(path);
+        if (contents === undefined) {
+            throw new Error(`No file at ${path}`);
+        }
+        return contents;
+    }),
+    writeAsStringAsync: jest.fn(async (path: string, contents: string) => {
+        mockFiles.set(path, contents);
+    }),
+    readDirectoryAsync: jest.fn(async (directory: string) =>
+        [...mockFiles.keys()]
+            .filter(path => path.startsWith(directory))
+            .map(path => path.substring(directory.length))),
+    deleteAsync: jest.fn(async (path: string) => {
+        mockFiles.delete(path);
+    })
+}));
+
+const CONVERSATIONS_DIRECTORY = `${FileSystem.documentDirectory}conversations/`;
+
+const buildConversation = (id: string): Conversation => ({
+    ...createConversation(id, "qwen2.5-3b", "You are helpful."),
+    title: "Greetings",
+    messages: [
+        { id: "m1", text: "Hi", isUser: true, timestamp: new Date("2024-05-01T10:00:00.000Z") },
+        { id: "m2", text: "Hello!", isUser: false, timestamp: new Date("2024-05-01T10:00:05.000Z"), parentId: "m1" },
+        { id: "m3", text: "Hey there!", isUser: false, timestamp: new Date("2024-05-01T10:01:00.000Z"), parentId: "m1" }
+    ],
+    activeLeafId: "m3"
+});
+
+beforeEach(() => {
+    mockFiles.clear();
+});
+
+describe("conversation storage", () => {
+    it("round-trips a conversation through save, load, list and delete", async () => {
+        const saved = await saveConversation(buildConversation("chat_1"));
+
+        const loaded = await loadConversation("chat_1");
+        expect(loaded).toEqual(saved);
+        expect(loaded?.messages[0].timestamp).toBeInstanceOf(Date);
+
+        expect(await listConversations()).toEqual([{
+            id: "chat_1",
+            title: "Greetings",
+            modelId: "qwen2.5-3b",
+            // Only the active branch counts
+            messageCount: 2,
+            createdAt: saved.createdAt,
+            updatedAt: saved.updatedAt
+        }]);
+
+        await deleteConversation("chat_1");
+        expect(await loadConversation("chat_1")).toBeNull();
+        expect(await listConversations()).toEqual([]);
+    });
+
+    it("lists the most recently updated conversations first and skips unreadable files", async () => {
+        const nowSpy = jest.spyOn(Date, "now");
+        nowSpy.mockReturnValue(1000);
+        await saveConversation(buildConversation("chat_old"));
+        nowSpy.mockReturnValue(2000);
+        await saveConversation(buildConversation("chat_new"));
+        nowSpy.mockRestore();
+        mockFiles.set(`${CONVERSATIONS_DIRECTORY}broken.json`, "{");
+        mockFiles.set(`${CONVERSATIONS_DIRECTORY}notes.txt`, "not a chat");
+        const consoleSpy = jest.spyOn(console, "error").mockImplementation(() => undefined);
+
+        const summaries = await listConversations();
+
+        expect(summaries.map(summary => summary.id)).toEqual(["chat_new", "chat_old"]);
+        expect(consoleSpy).toHaveBeenCalledWith("Error reading conversation", "broken.json", expect.any(Error));
+        consoleSpy.mockRestore();
+    });
+
+    it("migrates a version 1 document to a message tree", async () => {
+        mockFiles.set(`${CONVERSATIONS_DIRECTORY}chat_legacy.json`, JSON.stringify({
+            id: "chat_legacy",
+            title: "",
+            modelId: "qwen2.5-vl-3b",
+            systemPrompt: "You are helpful.",
+            createdAt: 1000,
+            updatedAt: 2000,
+            messages: [
+                { id: "a", text: "What is this?", isUser: true, timestamp: "2024-01-01T00:00:00.000Z", imageUri: "file:///photo.jpg" },
+                { id: "b", text: "A cat.", isUser: false, timestamp: "2024-01-01T00:00:10.000Z" },
+                { id: "c", text: "Thanks", isUser: true, timestamp: "2024-01-01T00:01:00.000Z" }
+            ]
+        }));
+
+        const conversation = await loadConversation("chat_legacy");
+
+        expect(conversation).toMatchObject({ id: "chat_legacy", title: "New Chat", activeLeafId: "c" });
+        expect(conversation?.messages.map(msg => [msg.id, msg.parentId])).toEqual([["a", undefined], ["b", "a"], ["c", "b"]]);
+        expect(conversation?.messages[0].imageUris).toEqual(["file:///photo.jpg"]);
+        expect(conversation?.messages[0]).not.toHaveProperty("imageUri");
+        expect(conversation?.messages[1].imageUris).toBeUndefined();
+        expect(conversation?.messages[2].timestamp).toEqual(new Date("2024-01-01T00:01:00.000Z"));
+    });
+
+    it("saves a migrated document in the current format", async () => {
+        mockFiles.set(`${CONVERSATIONS_DIRECTORY}chat_legacy.json`, JSON.stringify({
+            id: "chat_legacy",
+            title: "Old",
+            modelId: "qwen2.5-3b",
+            systemPrompt: "",
+            createdAt: 1000,
+            updatedAt: 2000,
+            messages: [
+                { id: "a", text: "Hi", isUser: true, timestamp: "2024-01-01T00:00:00.000Z" },
+                { id: "b", text: "Hello", isUser: false, timestamp: "2024-01-01T00:00:10.000Z" }
+            ]
+        }));
+
+        const migrated = await loadConversation("chat_legacy");
+        await saveConversation(migrated!);
+
+        const stored = JSON.parse(mockFiles.get(`${CONVERSATIONS_DIRECTORY}chat_legacy.json`)!);
+        expect(stored.version).toBe(2);
+        expect(stored.activeLeafId).toBe("b");
+        expect(stored.messages[1].parentId).toBe("a");
+        expect(await loadConversation("chat_legacy")).toEqual({ ...migrated, updatedAt: stored.updatedAt });
+    });
+});
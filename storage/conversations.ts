@@ -0,0 +1,216 @@
+import * as FileSystem from "expo-file-system";
+import { SavedGenerationSettings } from "@/llama/generationSettings";
+import { ResponseMetrics } from "@/llama/llama.config";
+import { getActivePath, MessageTree } from "./messageTree";
+
+export interface Message {
+    id: string;
+    text: string;
+    isUser: boolean;
+    timestamp: Date;
+    imageUris?: string[];
+    // The model's <think> output, kept apart from the reply and never sent back as history
+    reasoning?: string;
+    reasoningMs?: number;
+    interrupted?: boolean;
+    // Speed and token counts for assistant replies
+    metrics?: ResponseMetrics;
+    // The message this one follows; unset for the first message of a conversation
+    parentId?: string;
+}
+
+export interface Conversation extends MessageTree {
+    id: string;
+    title: string;
+    modelId: string;
+    // The prompt as last sent, with variables filled in
+    systemPrompt: string;
+    // Unset for chats saved before personas existed, which keep using systemPrompt as written
+    personaId?: string;
+    // Unset until the user changes them; the model's defaults apply until then
+    settings?: SavedGenerationSettings;
+    createdAt: number;
+    updatedAt: number;
+}
+
+export interface ConversationSummary {
+    id: string;
+    title: string;
+    modelId: string;
+    messageCount: number;
+    createdAt: number;
+    updatedAt: number;
+}
+
+// On-disk shape: dates become ISO strings so the document round-trips through JSON
+interface StoredMessage extends Omit<Message, "timestamp"> {
+    timestamp: string;
+    // Written before messages could carry several images
+    imageUri?: string;
+}
+
+// Version 1 kept a single branch as a plain list
+const toTree = (messages: Message[]): MessageTree => ({
+    messages: messages.map((msg, index) => ({ ...msg, parentId: index > 0 ? messages[index - 1].id : undefined })),
+    activeLeafId: messages[messages.length - 1]?.id
+});
+
+interface StoredConversation extends Omit<Conversation, "messages"> {
+    version: number;
+    messages: StoredMessage[];
+}
+
+const STORAGE_VERSION = 2;
+export const DEFAULT_TITLE = "New Chat";
+const MAX_TITLE_LENGTH = 40;
+
+export const getConversationsDirectory = () => FileSystem.documentDirectory + "conversations/";
+
+const getConversationPath = (id: string) => getConversationsDirectory() + `${id}.json`;
+
+const ensureDirectory = async () => {
+    const directory = getConversationsDirectory();
+    const info = await FileSystem.getInfoAsync(directory);
+    if (!info.exists) {
+        await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+    }
+};
+
+let conversationIdCounter = 0;
+export const generateConversationId = () => `chat_${Date.now()}_${++conversationIdCounter}`;
+
+// Title a chat after its first user message until the user renames it
+export const deriveTitle = (messages: Message[]) => {
+    const firstUserMessage = messages.find(msg => msg.isUser && msg.text.trim());
+    if (!firstUserMessage) {
+        return DEFAULT_TITLE;
+    }
+
+    const text = firstUserMessage.text.trim().replace(/\s+/g, " ");
+    return text.length > MAX_TITLE_LENGTH ? `${text.substring(0, MAX_TITLE_LENGTH).trim()}…` : text;
+};
+
+export const createConversation = (id: string, modelId: string, systemPrompt: string): Conversation => {
+    const now = Date.now();
+    return {
+        id,
+        title: DEFAULT_TITLE,
+        modelId,
+        systemPrompt,
+        messages: [],
+        createdAt: now,
+        updatedAt: now
+    };
+};
+
+export const serializeConversation = (conversation: Conversation): string => {
+    const stored: StoredConversation = {
+        ...conversation,
+        version: STORAGE_VERSION,
+        messages: conversation.messages.map(msg => ({
+            ...msg,
+            timestamp: msg.timestamp.toISOString()
+        }))
+    };
+    return JSON.stringify(stored);
+};
+
+export const deserializeConversation = (json: string): Conversation => {
+    const stored = JSON.parse(json) as StoredConversation;
+    if (!stored.id || !Array.isArray(stored.messages)) {
+        throw new Error("Invalid conversation document");
+    }
+
+    const messages = stored.messages.map(({ imageUri, ...msg }) => ({
+        ...msg,
+        imageUris: msg.imageUris ?? (imageUri ? [imageUri] : undefined),
+        timestamp: new Date(msg.timestamp)
+    }));
+    const tree = (stored.version ?? 1) < 2 ? toTree(messages) : { messages, activeLeafId: stored.activeLeafId };
+
+    return {
+        id: stored.id,
+        title: stored.title || DEFAULT_TITLE,
+        modelId: stored.modelId,
+        systemPrompt: stored.systemPrompt,
+        settings: stored.settings,
+        personaId: stored.personaId,
+        createdAt: stored.createdAt,
+        updatedAt: stored.updatedAt,
+        ...tree
+    };
+};
+
+const toSummary = (conversation: Conversation): ConversationSummary => ({
+    id: conversation.id,
+    title: conversation.title,
+    modelId: conversation.modelId,
+    // Only the branch being shown, which is what the user sees as the chat
+    messageCount: getActivePath(conversation).length,
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt
+});
+
+export const loadConversation = async (id: string): Promise<Conversation | null> => {
+    const path = getConversationPath(id);
+    const info = await FileSystem.getInfoAsync(path);
+    if (!info.exists) {
+        return null;
+    }
+
+    const json = await FileSystem.readAsStringAsync(path);
+    return deserializeConversation(json);
+};
+
+export const saveConversation = async (conversation: Conversation): Promise<Conversation> => {
+    await ensureDirectory();
+    const saved = { ...conversation, updatedAt: Date.now() };
+    await FileSystem.writeAsStringAsync(getConversationPath(saved.id), serializeConversation(saved));
+    return saved;
+};
+
+// Apply changes on top of the latest saved copy so edits made elsewhere (e.g. a rename) are kept
+export const updateConversation = async (
+    id: string,
+    update: (current: Conversation | null) => Conversation
+): Promise<Conversation> => {
+    const current = await loadConversation(id);
+    return saveConversation(update(current));
+};
+
+export const listConversations = async (): Promise<ConversationSummary[]> => {
+    await ensureDirectory();
+    const files = await FileSystem.readDirectoryAsync(getConversationsDirectory());
+    const summaries: ConversationSummary[] = [];
+
+    for (const file of files) {
+        if (!file.endsWith(".json")) {
+            continue;
+        }
+
+        try {
+            const conversation = await loadConversation(file.replace(/\.json$/, ""));
+            if (conversation) {
+                summaries.push(toSummary(conversation));
+            }
+        } catch (error) {
+            // Skip unreadable documents instead of hiding every other chat
+            console.error("Error reading conversation", file, error);
+        }
+    }
+
+    return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const renameConversation = async (id: string, title: string): Promise<Conversation> => {
+    return updateConversation(id, current => {
+        if (!current) {
+            throw new Error(`Conversation ${id} not found`);
+        }
+        return { ...current, title: title.trim() || DEFAULT_TITLE };
+    });
+};
+
+export const deleteConversation = async (id: string) => {
+    await FileSystem.deleteAsync(getConversationPath(id), { idempotent: true });
+};
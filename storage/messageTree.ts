@@ -0,0 +1,73 @@
+import { Message } from "./conversations";
+
+// Messages link to the one they answer through parentId, so editing or regenerating adds a
+// sibling instead of overwriting. activeLeafId picks the branch that is shown and sent to the model.
+export interface MessageTree {
+    // Every message of every branch, in the order they were created
+    messages: Message[];
+    activeLeafId?: string;
+}
+
+export const EMPTY_TREE: MessageTree = { messages: [] };
+
+// Root-to-leaf messages of the active branch
+export const getActivePath = (tree: MessageTree): Message[] => {
+    const byId = new Map(tree.messages.map(msg => [msg.id, msg]));
+    const path: Message[] = [];
+    let message = tree.activeLeafId ? byId.get(tree.activeLeafId) : undefined;
+    while (message) {
+        path.push(message);
+        message = message.parentId ? byId.get(message.parentId) : undefined;
+    }
+    return path.reverse();
+};
+
+// The alternatives at a fork, including the message itself, oldest first
+export const getSiblings = (tree: MessageTree, message: Message) =>
+    tree.messages.filter(msg => msg.parentId === message.parentId);
+
+// Add a message below its parentId and continue the active branch from it
+export const appendMessage = (tree: MessageTree, message: Message): MessageTree => ({
+    messages: [...tree.messages, message],
+    activeLeafId: message.id
+});
+
+export const replaceMessage = (tree: MessageTree, id: string, update: (message: Message) => Message): MessageTree => ({
+    ...tree,
+    messages: tree.messages.map(msg => msg.id === id ? update(msg) : msg)
+});
+
+// Follow the newest reply at each level, so switching back to a branch shows where it was last continued
+const findLatestLeaf = (tree: MessageTree, message: Message) => {
+    let leaf = message;
+    for (;;) {
+        const children = tree.messages.filter(msg => msg.parentId === leaf.id);
+        if (children.length === 0) {
+            return leaf;
+        }
+        leaf = children[children.length - 1];
+    }
+};
+
+export const selectBranch = (tree: MessageTree, id: string): MessageTree => {
+    const message = tree.messages.find(msg => msg.id === id);
+    return message ? { ...tree, activeLeafId: findLatestLeaf(tree, message).id } : tree;
+};
+
+// Delete one message; its replies move up to its parent so the rest of the branch is kept
+export const removeMessage = (tree: MessageTree, id: string): MessageTree => {
+    const removed = tree.messages.find(msg => msg.id === id);
+    if (!removed) {
+        return tree;
+    }
+
+    const messages = tree.messages
+        .filter(msg => msg.id !== id)
+        .map(msg => msg.parentId === id ? { ...msg, parentId: removed.parentId } : msg);
+    if (tree.activeLeafId !== id) {
+        return { messages, activeLeafId: tree.activeLeafId };
+    }
+
+    const fallback = removed.parentId ?? messages.filter(msg => !msg.parentId).pop()?.id;
+    return fallback ? selectBranch({ messages }, fallback) : { messages };
+};
@@ -0,0 +1,121 @@
+import * as FileSystem from "expo-file-system";
+
+// A named system prompt. The prompt may contain {{variables}} that are filled in when a message is sent.
+export interface Persona {
+    id: string;
+    name: string;
+    prompt: string;
+    createdAt: number;
+    updatedAt: number;
+}
+
+export interface PersonaLibrary {
+    personas: Persona[];
+    // Fills {{user_name}}
+    userName: string;
+}
+
+export const DEFAULT_PERSONA_ID = "assistant";
+
+// Always present and can't be deleted, so every model and chat has a persona to fall back to
+const DEFAULT_PERSONA: Persona = {
+    id: DEFAULT_PERSONA_ID,
+    name: "Assistant",
+    prompt: `You are {{model_name}}, a helpful AI assistant.
+
+CRITICAL RULES:
+- Only respond to what the user actually said, not what you think they might want
+- NEVER mention platform features, tools, or getting started guides unless the user specifically asks about them
+
+You should be friendly and helpful, but never create problems or scenarios that don't exist. You are NOT a user asking questions - you are the assistant answering them.`,
+    createdAt: 0,
+    updatedAt: 0
+};
+
+export const PROMPT_VARIABLES = [
+    { name: "model_name", description: "Name of the loaded model" },
+    { name: "date", description: "Today's date" },
+    { name: "user_name", description: "Your name, set on the Personas screen" }
+];
+
+const LIBRARY_PATH = () => FileSystem.documentDirectory + "personas.json";
+
+export const loadPersonaLibrary = async (): Promise<PersonaLibrary> => {
+    let stored: Partial<PersonaLibrary> = {};
+    const info = await FileSystem.getInfoAsync(LIBRARY_PATH());
+    if (info.exists) {
+        try {
+            stored = JSON.parse(await FileSystem.readAsStringAsync(LIBRARY_PATH()));
+        } catch (error) {
+            console.error("Error reading personas:", error);
+        }
+    }
+
+    const personas = Array.isArray(stored.personas) ? stored.personas : [];
+    return {
+        personas: personas.some(persona => persona.id === DEFAULT_PERSONA_ID) ? personas : [DEFAULT_PERSONA, ...personas],
+        userName: stored.userName ?? ""
+    };
+};
+
+const saveLibrary = async (library: PersonaLibrary) => {
+    await FileSystem.writeAsStringAsync(LIBRARY_PATH(), JSON.stringify(library));
+    return library;
+};
+
+// Personas that were deleted since a chat or model picked them resolve to the default
+export const getPersona = (library: PersonaLibrary, id?: string) =>
+    library.personas.find(persona => persona.id === id) ??
+    library.personas.find(persona => persona.id === DEFAULT_PERSONA_ID) ??
+    DEFAULT_PERSONA;
+
+let personaIdCounter = 0;
+const generatePersonaId = () => `persona_${Date.now()}_${++personaIdCounter}`;
+
+// Add a new persona when `id` is unset, otherwise update the existing one
+export const savePersona = async (changes: Pick<Persona, "name" | "prompt"> & { id?: string }) => {
+    const name = changes.name.trim();
+    if (!name) {
+        throw new Error("A persona needs a name.");
+    }
+    if (!changes.prompt.trim()) {
+        throw new Error("A persona needs a prompt.");
+    }
+
+    const library = await loadPersonaLibrary();
+    const now = Date.now();
+    const existing = changes.id ? library.personas.find(persona => persona.id === changes.id) : undefined;
+    const personas = existing
+        ? library.personas.map(persona => persona === existing ? { ...existing, name, prompt: changes.prompt, updatedAt: now } : persona)
+        : [...library.personas, { id: generatePersonaId(), name, prompt: changes.prompt, createdAt: now, updatedAt: now }];
+    return saveLibrary({ ...library, personas });
+};
+
+export const duplicatePersona = async (id: string) => {
+    const library = await loadPersonaLibrary();
+    const original = getPersona(library, id);
+    return savePersona({ name: `${original.name} Copy`, prompt: original.prompt });
+};
+
+export const deletePersona = async (id: string) => {
+    if (id === DEFAULT_PERSONA_ID) {
+        throw new Error("The default persona can't be deleted.");
+    }
+    const library = await loadPersonaLibrary();
+    return saveLibrary({ ...library, personas: library.personas.filter(persona => persona.id !== id) });
+};
+
+export const saveUserName = async (userName: string) => {
+    const library = await loadPersonaLibrary();
+    return saveLibrary({ ...library, userName: userName.trim() });
+};
+
+// Replace {{variable}} placeholders; unknown names are left as written so typos stay visible
+export const fillPromptVariables = (prompt: string, values: { modelName: string; userName: string; date?: Date }) => {
+    const variables: Record<string, string> = {
+        model_name: values.modelName,
+        date: (values.date ?? new Date()).toLocaleDateString([], { weekday: "long", year: "numeric", month: "long", day: "numeric" }),
+        user_name: values.userName || "the user"
+    };
+    return prompt.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) => variables[name] ?? placeholder);
+};
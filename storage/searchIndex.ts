@@ -0,0 +1,338 @@
+import { AppState } from "react-native";
+import * as FileSystem from "expo-file-system";
+import { Conversation, listConversations, loadConversation, Message } from "./conversations";
+
+// One entry per message; the text is kept so results can show snippets without opening each chat
+interface IndexedMessage {
+    conversationId: string;
+    messageId: string;
+    isUser: boolean;
+    timestamp: number;
+    text: string;
+    length: number;
+}
+
+interface SearchIndex {
+    version: number;
+    documents: Record<string, IndexedMessage>;
+    // term -> document key -> occurrences
+    postings: Record<string, Record<string, number>>;
+    totalLength: number;
+}
+
+export interface SearchResult {
+    conversationId: string;
+    messageId: string;
+    isUser: boolean;
+    timestamp: number;
+    score: number;
+    snippet: string;
+    // [start, end) ranges of the snippet that matched the query
+    highlights: [number, number][];
+}
+
+const INDEX_VERSION = 2;
+const INDEX_PATH = () => FileSystem.documentDirectory + "search_index.json";
+
+// Replies are saved many times while they stream; write the index once they settle
+const SAVE_DELAY_MS = 2000;
+
+const MAX_RESULTS = 50;
+const SNIPPET_BEFORE = 40;
+const SNIPPET_LENGTH = 160;
+
+// BM25 weights
+const K1 = 1.2;
+const B = 0.75;
+
+// Hermes regexes can't rely on Unicode property escapes, so words are split on whitespace and ASCII punctuation
+const SEPARATORS = /[\s.,;:!?()[\]{}"'`*_#<>/\\|=+~^$%&@-]+/;
+
+const normalizeCharacter = (character: string) =>
+    character.normalize("NFKD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+
+// Folded one character at a time so match positions can be traced back to the original text
+const normalize = (text: string) => Array.from(text, normalizeCharacter).join("");
+
+// Folded text plus, for each of its code units, the [start, end) of the original character it came from
+const normalizeWithOffsets = (text: string) => {
+    let normalized = "";
+    const starts: number[] = [];
+    const ends: number[] = [];
+    let offset = 0;
+    for (const character of text) {
+        const folded = normalizeCharacter(character);
+        for (let i = 0; i < folded.length; i++) {
+            starts.push(offset);
+            ends.push(offset + character.length);
+        }
+        normalized += folded;
+        offset += character.length;
+    }
+    return { normalized, starts, ends };
+};
+
+const tokenize = (text: string) => normalize(text).split(SEPARATORS).filter(Boolean);
+
+const getDocumentKey = (conversationId: string, messageId: string) => `${conversationId}/${messageId}`;
+
+let cachedIndex: SearchIndex | null = null;
+// Index changes run one at a time so concurrent saves don't drop each other's updates
+let queue: Promise<unknown> = Promise.resolve();
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Keys are message text and ids, so maps have no prototype for a term like "constructor" to collide with
+const createDictionary = <T>(entries: Record<string, T> = {}): Record<string, T> =>
+    Object.assign(Object.create(null), entries);
+
+const createIndex = (): SearchIndex => ({
+    version: INDEX_VERSION,
+    documents: createDictionary(),
+    postings: createDictionary(),
+    totalLength: 0
+});
+
+const removeDocument = (index: SearchIndex, key: string) => {
+    const document = index.documents[key];
+    if (!document) {
+        return;
+    }
+    for (const term of new Set(tokenize(document.text))) {
+        delete index.postings[term]?.[key];
+        if (index.postings[term] && Object.keys(index.postings[term]).length === 0) {
+            delete index.postings[term];
+        }
+    }
+    index.totalLength -= document.length;
+    delete index.documents[key];
+};
+
+const addDocument = (index: SearchIndex, conversationId: string, message: Message) => {
+    const terms = tokenize(message.text);
+    if (terms.length === 0) {
+        return;
+    }
+    const key = getDocumentKey(conversationId, message.id);
+    index.documents[key] = {
+        conversationId,
+        messageId: message.id,
+        isUser: message.isUser,
+        timestamp: message.timestamp.getTime(),
+        text: message.text,
+        length: terms.length
+    };
+    for (const term of terms) {
+        const postings = index.postings[term] ?? (index.postings[term] = createDictionary());
+        postings[key] = (postings[key] ?? 0) + 1;
+    }
+    index.totalLength += terms.length;
+};
+
+// Bring one conversation's entries in line with its messages, touching only ones that changed
+const applyConversation = (index: SearchIndex, conversation: Conversation) => {
+    const current = new Map(conversation.messages.map(msg => [getDocumentKey(conversation.id, msg.id), msg]));
+    for (const [key, document] of Object.entries(index.documents)) {
+        if (document.conversationId !== conversation.id) {
+            continue;
+        }
+        const message = current.get(key);
+        if (!message || message.text !== document.text) {
+            removeDocument(index, key);
+        }
+    }
+    for (const [key, message] of current) {
+        if (!index.documents[key]) {
+            addDocument(index, conversation.id, message);
+        }
+    }
+};
+
+const saveIndex = async (index: SearchIndex) => {
+    await FileSystem.writeAsStringAsync(INDEX_PATH(), JSON.stringify(index));
+};
+
+// Read every saved chat once; only needed the first time or after the index format changes
+const buildIndex = async () => {
+    const index = createIndex();
+    for (const summary of await listConversations()) {
+        const conversation = await loadConversation(summary.id);
+        if (conversation) {
+            applyConversation(index, conversation);
+        }
+    }
+    console.log(`🔎 Built search index with ${Object.keys(index.documents).length} messages`);
+    await saveIndex(index);
+    return index;
+};
+
+const loadIndex = async (): Promise<SearchIndex> => {
+    if (cachedIndex) {
+        return cachedIndex;
+    }
+    const info = await FileSystem.getInfoAsync(INDEX_PATH());
+    if (info.exists) {
+        try {
+            const stored = JSON.parse(await FileSystem.readAsStringAsync(INDEX_PATH())) as SearchIndex;
+            if (stored.version === INDEX_VERSION) {
+                const postings = createDictionary<Record<string, number>>();
+                for (const [term, documents] of Object.entries(stored.postings)) {
+                    postings[term] = createDictionary(documents);
+                }
+                cachedIndex = { ...stored, documents: createDictionary(stored.documents), postings };
+                return cachedIndex;
+            }
+        } catch (error) {
+            console.error("Error reading search index:", error);
+        }
+    }
+    cachedIndex = await buildIndex();
+    return cachedIndex;
+};
+
+const enqueue = (work: () => Promise<void>) => {
+    const task = queue.then(work);
+    queue = task.catch(() => undefined);
+    return task;
+};
+
+const flushIndex = () => {
+    if (saveTimer) {
+        clearTimeout(saveTimer);
+        saveTimer = null;
+    }
+    return enqueue(async () => {
+        if (cachedIndex) {
+            await saveIndex(cachedIndex);
+        }
+    });
+};
+
+const scheduleSave = () => {
+    if (saveTimer) {
+        clearTimeout(saveTimer);
+    }
+    saveTimer = setTimeout(() => {
+        flushIndex().catch(error => console.error("Error saving search index:", error));
+    }, SAVE_DELAY_MS);
+};
+
+// Changes apply to the in-memory index right away; the file is written after a pause
+const updateIndex = (update: (index: SearchIndex) => void) => enqueue(async () => {
+    update(await loadIndex());
+    scheduleSave();
+});
+
+// Don't lose a pending write if the app is suspended and then killed
+AppState.addEventListener("change", status => {
+    if (status === "background" && saveTimer) {
+        flushIndex().catch(error => console.error("Error saving search index:", error));
+    }
+});
+
+export const indexConversation = (conversation: Conversation) =>
+    updateIndex(index => applyConversation(index, conversation));
+
+export const removeConversationFromIndex = (conversationId: string) =>
+    updateIndex(index => {
+        for (const [key, document] of Object.entries(index.documents)) {
+            if (document.conversationId === conversationId) {
+                removeDocument(index, key);
+            }
+        }
+    });
+
+// Where the query terms appear in `text`, matching at word starts so "cat" finds "Category" but not "locate".
+// Ranges are positions in `text` itself, not in its folded form, which can be shorter or longer.
+const findMatches = (text: string, terms: string[]) => {
+    const { normalized, starts, ends } = normalizeWithOffsets(text);
+    const matches: [number, number][] = [];
+    for (const term of terms) {
+        let from = 0;
+        for (;;) {
+            const start = normalized.indexOf(term, from);
+            if (start === -1) {
+                break;
+            }
+            if (start === 0 || SEPARATORS.test(normalized[start - 1])) {
+                matches.push([starts[start], ends[start + term.length - 1]]);
+            }
+            from = start + term.length;
+        }
+    }
+    return matches.sort((a, b) => a[0] - b[0]);
+};
+
+const buildSnippet = (text: string, terms: string[]) => {
+    const flat = text.replace(/\s+/g, " ").trim();
+    const matches = findMatches(flat, terms);
+    const first = matches[0]?.[0] ?? 0;
+    const start = first > SNIPPET_BEFORE ? flat.lastIndexOf(" ", first - SNIPPET_BEFORE) + 1 : 0;
+    const end = Math.min(flat.length, start + SNIPPET_LENGTH);
+    const prefix = start > 0 ? "…" : "";
+    const snippet = prefix + flat.substring(start, end) + (end < flat.length ? "…" : "");
+    const highlights = matches
+        .filter(([matchStart, matchEnd]) => matchStart >= start && matchEnd <= end)
+        .map(([matchStart, matchEnd]): [number, number] =>
+            [matchStart - start + prefix.length, matchEnd - start + prefix.length]);
+    return { snippet, highlights };
+};
+
+// Ranked with BM25. Every word must match; the last one also matches as a prefix so results
+// appear while typing.
+export const searchMessages = async (query: string): Promise<SearchResult[]> => {
+    const terms = tokenize(query);
+    if (terms.length === 0) {
+        return [];
+    }
+    const index = await loadIndex();
+    const documentCount = Object.keys(index.documents).length;
+    if (documentCount === 0) {
+        return [];
+    }
+    const averageLength = index.totalLength / documentCount;
+
+    const lastTerm = terms[terms.length - 1];
+    const termGroups = terms.map(term => term === lastTerm
+        ? Object.keys(index.postings).filter(candidate => candidate.startsWith(term))
+        : index.postings[term] ? [term] : []);
+
+    const scores = new Map<string, number>();
+    termGroups.forEach((group, position) => {
+        const groupScores = new Map<string, number>();
+        for (const term of group) {
+            const postings = index.postings[term];
+            const frequency = Object.keys(postings).length;
+            const idf = Math.log(1 + (documentCount - frequency + 0.5) / (frequency + 0.5));
+            for (const [key, occurrences] of Object.entries(postings)) {
+                const lengthRatio = index.documents[key].length / averageLength;
+                const score = idf * occurrences * (K1 + 1) / (occurrences + K1 * (1 - B + B * lengthRatio));
+                groupScores.set(key, Math.max(groupScores.get(key) ?? 0, score));
+            }
+        }
+        // Intersect with the documents that matched every earlier word
+        for (const key of position === 0 ? groupScores.keys() : [...scores.keys()]) {
+            const score = groupScores.get(key);
+            if (score === undefined) {
+                scores.delete(key);
+            } else {
+                scores.set(key, (scores.get(key) ?? 0) + score);
+            }
+        }
+    });
+
+    return [...scores.entries()]
+        .sort(([a, scoreA], [b, scoreB]) =>
+            scoreB - scoreA || index.documents[b].timestamp - index.documents[a].timestamp)
+        .slice(0, MAX_RESULTS)
+        .map(([key, score]) => {
+            const document = index.documents[key];
+            return {
+                conversationId: document.conversationId,
+                messageId: document.messageId,
+                isUser: document.isUser,
+                timestamp: document.timestamp,
+                score,
+                ...buildSnippet(document.text, terms)
+            };
+        });
+};